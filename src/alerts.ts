@@ -0,0 +1,118 @@
+import { AlertRule, AlertsConfig } from './config.js';
+import { SubscriptionInfo, UsageWindow } from './providers/base.js';
+
+export type AlertEventType = 'fire' | 'clear' | 'reset';
+
+export interface AlertEvent {
+  type: AlertEventType;
+  rule: string;
+  provider: string;
+  provider_name: string;
+  window_id: string;
+  window_label: string;
+  used_percent: number;
+  threshold: number;
+  resets_at?: string;
+  message: string;
+}
+
+interface AlertState {
+  firing: boolean;
+  resetsAt?: string;
+}
+
+const DEFAULT_HYSTERESIS = 5;
+
+function ruleName(rule: AlertRule): string {
+  if (rule.name) return rule.name;
+  return `${rule.provider}.${rule.window || '*'} >= ${rule.threshold}%`;
+}
+
+function matches(rule: AlertRule, key: string, w: UsageWindow): boolean {
+  // A rule for "openai" also covers every "openai:<account>"
+  if (rule.provider !== '*' && rule.provider !== key && !key.startsWith(`${rule.provider}:`)) return false;
+  if (rule.window && rule.window !== '*' && rule.window !== w.id) return false;
+  return true;
+}
+
+// A reset moves resets_at forward; small jitter in the reported timestamp is not a reset
+function hasReset(previous: string | undefined, current: string | undefined): boolean {
+  if (!previous || !current) return false;
+  const prev = new Date(previous).getTime();
+  const next = new Date(current).getTime();
+  if (isNaN(prev) || isNaN(next)) return false;
+  return next - prev > 60 * 1000 && Date.now() >= prev;
+}
+
+function describe(type: AlertEventType, info: SubscriptionInfo, w: UsageWindow, pct: number, threshold: number): string {
+  const subject = `${info.name} ${w.label}`;
+  if (type === 'fire') return `${subject} at ${pct.toFixed(0)}% (threshold ${threshold}%)`;
+  if (type === 'reset') return `${subject} reset, now ${pct.toFixed(0)}%`;
+  return `${subject} back to ${pct.toFixed(0)}%`;
+}
+
+/**
+ * Tracks rule state per provider window so each crossing notifies once
+ */
+export class AlertEvaluator {
+  private config: AlertsConfig;
+  private states = new Map<string, AlertState>();
+
+  constructor(config: AlertsConfig = {}) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return (this.config.rules || []).length > 0 && (this.config.sinks || []).length > 0;
+  }
+
+  evaluate(key: string, info: SubscriptionInfo): AlertEvent[] {
+    const events: AlertEvent[] = [];
+    if (info.error) return events;
+
+    const notifyOnClear = this.config.notify_on_clear !== false;
+    const notifyOnReset = this.config.notify_on_reset !== false;
+
+    for (const rule of this.config.rules || []) {
+      const name = ruleName(rule);
+      const clearBelow = rule.clear_below ?? rule.threshold - DEFAULT_HYSTERESIS;
+
+      for (const w of info.windows) {
+        if (!matches(rule, key, w)) continue;
+
+        const stateKey = `${name}|${key}|${w.id}`;
+        const state = this.states.get(stateKey) || { firing: false };
+        const pct = w.used_fraction * 100;
+
+        const event = (type: AlertEventType): AlertEvent => ({
+          type,
+          rule: name,
+          provider: key,
+          provider_name: info.name,
+          window_id: w.id,
+          window_label: w.label,
+          used_percent: Math.round(pct * 10) / 10,
+          threshold: rule.threshold,
+          resets_at: w.resets_at,
+          message: describe(type, info, w, pct, rule.threshold)
+        });
+
+        if (state.firing && hasReset(state.resetsAt, w.resets_at) && pct < rule.threshold) {
+          state.firing = false;
+          if (notifyOnReset) events.push(event('reset'));
+        } else if (!state.firing && pct >= rule.threshold) {
+          state.firing = true;
+          events.push(event('fire'));
+        } else if (state.firing && pct < clearBelow) {
+          state.firing = false;
+          if (notifyOnClear) events.push(event('clear'));
+        }
+
+        state.resetsAt = w.resets_at;
+        this.states.set(stateKey, state);
+      }
+    }
+
+    return events;
+  }
+}
@@ -1,9 +1,19 @@
 import { execCommand } from './utils.js';
+import { isReplaying, replayCommand, recordCommand } from './traffic.js';
+
+// CLI probes go through here so --record/--replay capture them; secret store
+// lookups are captured separately, as credentials (see lookupSecret)
+async function runCli(command: string, timeout?: number): Promise<{ stdout: string; stderr: string }> {
+  if (isReplaying()) return replayCommand(command);
+  const output = await execCommand(command, timeout);
+  recordCommand(command, output);
+  return output;
+}
 
 // Helper to check if command exists
-async function commandExists(cmd: string): Promise<boolean> {
+export async function commandExists(cmd: string): Promise<boolean> {
   try {
-    const { stdout } = await execCommand(`command -v ${cmd}`);
+    const { stdout } = await runCli(`command -v ${cmd}`);
     return !!stdout;
   } catch {
     return false;
@@ -18,7 +28,7 @@ function stripAnsi(s: string): string {
 export async function getCliStatus(cliName: string): Promise<string | null> {
   if (cliName === 'codex') {
     try {
-      const { stdout, stderr } = await execCommand('codex login status', 8000);
+      const { stdout, stderr } = await runCli('codex login status', 8000);
       const output = stdout || stderr;
       if (!output) return null;
       const clean = stripAnsi(output);
@@ -40,7 +50,7 @@ export async function getCliStatus(cliName: string): Promise<string | null> {
   }
 
   if (cliName === 'cursor-agent') {
-    const { stdout } = await execCommand('cursor-agent status', 15000);
+    const { stdout } = await runCli('cursor-agent status', 15000);
     if (!stdout) return null;
     const clean = stripAnsi(stdout);
     const m = clean.match(/Logged in as\s+(.+?)(\n|$)/i);
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
+import os from 'os';
 import yaml from 'js-yaml';
+import { ConfigIssue, validateConfig, formatPath } from './config_schema.js';
 
 export interface ManualConfig {
   usage_text?: string;
@@ -8,29 +10,177 @@ export interface ManualConfig {
   limit_note?: string;
 }
 
+export type CredentialSource = 'auto' | 'keychain' | 'secret-service' | 'file' | 'state-db';
+
+export interface ProviderSettings {
+  enabled?: boolean;           // false hides the provider (or account) everywhere
+  order?: number;              // Display order, lower first; unset keeps the built-in order
+  title?: string;              // Replaces the panel title
+  credential_source?: CredentialSource;
+  credentials_file?: string;   // Overrides the provider's default credentials file
+  state_db?: string;           // Cursor: overrides the state.vscdb location
+  team?: boolean;              // Cursor: team section for team admins (default true)
+  hide_unused?: boolean;       // Gemini: hide model quotas that are still untouched
+  keychain_service?: string;   // Overrides the Keychain / Secret Service entry name
+  label?: string;              // Account label shown in the panel title
+  auto_login?: boolean;        // Launch the login flow when credentials are missing (default true)
+  base_url?: string;           // Overrides the provider's API base URL (e.g. an internal gateway)
+  timeout?: number;            // Request timeout in milliseconds, overrides http.timeout
+  retries?: number;            // Overrides http.retries
+  accounts?: Record<string, ProviderSettings>;  // Named accounts, each rendered as its own panel
+}
+
+export interface HttpWindowMapping {
+  id?: string;
+  label: string;               // Literal label, or a path like "@.model" when using `each`
+  each?: string;               // Path to an array; other paths may then be relative ("@.used")
+  used?: string;
+  limit?: string | number;
+  utilization?: string;        // Percent used, 0-100
+  used_fraction?: string;      // Fraction used, 0-1
+  resets_at?: string;          // ISO timestamp, or epoch seconds/milliseconds
+  window_seconds?: number;
+}
+
+export interface HttpProviderConfig {
+  name?: string;
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;   // Values may use ${env:NAME} and ${file:path}
+  body?: unknown;
+  timeout?: number;                   // Milliseconds
+  dashboard_url?: string;
+  plan?: string;                      // Path or literal
+  account?: string;                   // Path or literal
+  windows?: HttpWindowMapping[];
+}
+
+export interface HttpConfig {
+  timeout?: number;            // Milliseconds, default 10000
+  retries?: number;            // Retries on network errors, 429 and 5xx (default 2)
+  proxy?: string;              // Overrides HTTPS_PROXY / HTTP_PROXY
+  no_proxy?: string;           // Overrides NO_PROXY
+  ca_file?: string;            // Extra PEM certificates, e.g. a corporate root CA
+}
+
+export interface HistoryConfig {
+  enabled?: boolean;
+  path?: string;
+  retention_days?: number;
+  compact_after_days?: number;
+}
+
+export interface AlertRule {
+  name?: string;
+  provider: string;          // provider key, or "*" for any provider
+  window?: string;           // window id (e.g. "5h", "primary", a Gemini model family); omit or "*" for any
+  threshold: number;         // percent used that fires the rule
+  clear_below?: number;      // percent that clears it again, defaults to threshold - 5
+}
+
+export interface AlertSink {
+  type: 'desktop' | 'webhook' | 'command';
+  url?: string;                       // webhook
+  headers?: Record<string, string>;   // webhook
+  command?: string;                   // command
+}
+
+export interface AlertsConfig {
+  rules?: AlertRule[];
+  sinks?: AlertSink[];
+  notify_on_clear?: boolean;   // default true
+  notify_on_reset?: boolean;   // default true
+}
+
 export interface Config {
   manual?: Record<string, ManualConfig>;
+  providers?: Record<string, ProviderSettings>;
+  custom_providers?: Record<string, HttpProviderConfig>;
+  http?: HttpConfig;
+  history?: HistoryConfig;
+  alerts?: AlertsConfig;
   api_keys?: Record<string, string>; // Legacy support, though not used much now
 }
 
-export function loadConfig(configDir: string = '.'): Config {
-  const configPath = path.resolve(configDir, 'config.yaml');
-  const examplePath = path.resolve(configDir, 'config.example.yaml');
-  
-  let targetPath = '';
-  if (fs.existsSync(configPath)) {
-    targetPath = configPath;
-  } else if (fs.existsSync(examplePath)) {
-    targetPath = examplePath;
-  } else {
-    return {};
+export const CONFIG_FILE = 'config.yaml';
+
+export class ConfigError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(configPath: string, issues: ConfigIssue[]) {
+    super(formatIssues(configPath, issues));
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+export function getConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'ai_subscription_monitor');
+}
+
+/**
+ * config.yaml in --config-dir when given; otherwise the XDG location, then
+ * ./config.yaml for setups that predate it
+ */
+export function findConfigPath(configDir?: string): string | null {
+  const candidates = configDir
+    ? [path.resolve(configDir, CONFIG_FILE)]
+    : [path.join(getConfigDir(), CONFIG_FILE), path.resolve(CONFIG_FILE)];
+  return candidates.find(p => fs.existsSync(p)) || null;
+}
+
+export function formatIssues(configPath: string, issues: ConfigIssue[]): string {
+  return issues
+    .map(issue => {
+      const where = issue.line ? `${configPath}:${issue.line}` : configPath;
+      const key = formatPath(issue.path);
+      return `${where}: ${issue.severity}: ${key ? `${key}: ` : ''}${issue.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Parse and validate a config file without throwing; YAML syntax errors are
+ * reported as issues too
+ */
+export function readConfigFile(configPath: string): { config: Config; issues: ConfigIssue[] } {
+  let content: string;
+  try {
+    content = fs.readFileSync(configPath, 'utf8');
+  } catch (e: any) {
+    return { config: {}, issues: [{ severity: 'error', path: [], message: `cannot read file (${e.code || e.message})` }] };
   }
 
+  let data: unknown;
   try {
-    const content = fs.readFileSync(targetPath, 'utf8');
-    return (yaml.load(content) as Config) || {};
-  } catch (e) {
-    console.warn('Failed to load config:', e);
-    return {};
+    data = yaml.load(content);
+  } catch (e: any) {
+    const line = e.mark?.line !== undefined ? e.mark.line + 1 : undefined;
+    return { config: {}, issues: [{ severity: 'error', path: [], message: e.reason || e.message, line }] };
+  }
+
+  const issues = validateConfig(data, content);
+  return { config: (data as Config) || {}, issues };
+}
+
+// Warnings are printed once per process, not on every watch-mode reload
+const reportedWarnings = new Set<string>();
+
+export function loadConfig(configDir?: string): Config {
+  const configPath = findConfigPath(configDir);
+  if (!configPath) return {};
+
+  const { config, issues } = readConfigFile(configPath);
+  const errors = issues.filter(i => i.severity === 'error');
+  if (errors.length > 0) {
+    throw new ConfigError(configPath, errors);
+  }
+
+  const warnings = formatIssues(configPath, issues.filter(i => i.severity === 'warning'));
+  if (warnings && !reportedWarnings.has(warnings)) {
+    reportedWarnings.add(warnings);
+    console.error(warnings);
   }
+  return config;
 }
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import chalk from 'chalk';
+import { fileURLToPath } from 'url';
+import { Config, CONFIG_FILE, getConfigDir, findConfigPath, readConfigFile, formatIssues } from './config.js';
+import { allProviderKeys, builtinProviderKeys } from './registry.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Shipped next to package.json, one level up from both src/ and dist/
+const EXAMPLE_CONFIG = path.join(__dirname, '../config.example.yaml');
+
+const REDACTED = '***';
+
+export function initConfig(configDir: string | undefined, force: boolean): boolean {
+  const target = path.join(configDir ? path.resolve(configDir) : getConfigDir(), CONFIG_FILE);
+  if (fs.existsSync(target) && !force) {
+    console.error(`${target} already exists (use --force to overwrite)`);
+    return false;
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.copyFileSync(EXAMPLE_CONFIG, target);
+  console.log(`${chalk.green('✔')} Wrote ${target}`);
+  return true;
+}
+
+export function validateConfigFile(file: string | undefined, configDir: string | undefined): boolean {
+  const configPath = file ? path.resolve(file) : findConfigPath(configDir);
+  if (!configPath) {
+    console.error(`No ${CONFIG_FILE} found (run \`ai-sub config init\` to create one)`);
+    return false;
+  }
+
+  const { issues } = readConfigFile(configPath);
+  if (issues.length === 0) {
+    console.log(`${chalk.green('✔')} ${configPath} is valid`);
+    return true;
+  }
+  console.log(formatIssues(configPath, issues));
+  return !issues.some(i => i.severity === 'error');
+}
+
+// ${env:...} and ${file:...} references are safe to print; literal values are not
+function redactHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+  if (!headers) return headers;
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+    [name, typeof value === 'string' && value.includes('${') ? value : REDACTED]));
+}
+
+function redact(config: Config): Config {
+  const copy: Config = JSON.parse(JSON.stringify(config));
+  if (copy.api_keys) {
+    copy.api_keys = Object.fromEntries(Object.keys(copy.api_keys).map(key => [key, REDACTED]));
+  }
+  for (const definition of Object.values(copy.custom_providers || {})) {
+    if (definition) definition.headers = redactHeaders(definition.headers);
+  }
+  for (const sink of copy.alerts?.sinks || []) {
+    if (sink) sink.headers = redactHeaders(sink.headers);
+  }
+  if (copy.http?.proxy) {
+    copy.http.proxy = copy.http.proxy.replace(/\/\/[^@/]*@/, `//${REDACTED}@`);
+  }
+  return copy;
+}
+
+export function showConfig(config: Config, configDir: string | undefined): void {
+  const configPath = findConfigPath(configDir);
+  console.log(chalk.bold('Config file: ') + (configPath || chalk.dim('none (using defaults)')));
+
+  const shown = allProviderKeys(config);
+  const disabled = builtinProviderKeys()
+    .concat(Object.keys(config.custom_providers || {}))
+    .filter(key => !shown.some(k => k === key || k.startsWith(`${key}:`)));
+  console.log(chalk.bold('Providers:   ') + (shown.join(', ') || chalk.dim('none')) +
+    (disabled.length > 0 ? chalk.dim(` (disabled: ${disabled.join(', ')})`) : ''));
+  console.log('');
+  console.log(yaml.dump(redact(config), { lineWidth: -1 }).trimEnd());
+}
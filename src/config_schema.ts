@@ -0,0 +1,328 @@
+/**
+ * Minimal schema for config.yaml. Hand-rolled rather than JSON Schema so the
+ * error messages can point at YAML lines and suggest misspelled keys.
+ */
+type Schema =
+  | { type: 'string' | 'boolean' | 'any' }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'enum'; values: string[]; ignoreCase?: boolean }
+  | { type: 'object'; fields: Record<string, Schema>; required?: string[] }
+  | { type: 'map'; values: Schema; keys?: Record<string, Schema> }  // keys: schema for specific entries
+  | { type: 'array'; items: Schema }
+  | { type: 'union'; options: Schema[] };
+
+export interface ConfigIssue {
+  severity: 'error' | 'warning';
+  path: (string | number)[];
+  message: string;
+  line?: number;
+}
+
+const str: Schema = { type: 'string' };
+const bool: Schema = { type: 'boolean' };
+const positive: Schema = { type: 'number', min: 0 };
+const count: Schema = { type: 'number', min: 0, integer: true };
+const percent: Schema = { type: 'number', min: 0, max: 100 };
+
+const manual: Schema = {
+  type: 'object',
+  fields: { usage_text: str, reset_time: str, limit_note: str }
+};
+
+const providerFields: Record<string, Schema> = {
+  enabled: bool,
+  order: { type: 'number' },
+  title: str,
+  credentials_file: str,
+  state_db: str,
+  team: bool,
+  hide_unused: bool,
+  keychain_service: str,
+  label: str,
+  auto_login: bool,
+  base_url: str,
+  timeout: positive,
+  retries: count
+};
+
+// credential_source is only accepted with the values the provider actually reads
+function providerSettings(credentialSources?: string[]): Schema {
+  const fields: Record<string, Schema> = credentialSources
+    ? { ...providerFields, credential_source: { type: 'enum', values: credentialSources } }
+    : providerFields;
+  return {
+    type: 'object',
+    fields: {
+      ...fields,
+      accounts: { type: 'map', values: { type: 'object', fields } }
+    }
+  };
+}
+
+const providers: Schema = {
+  type: 'map',
+  values: providerSettings(),
+  keys: {
+    claude: providerSettings(['auto', 'keychain', 'secret-service', 'file']),
+    cursor: providerSettings(['auto', 'keychain', 'secret-service', 'file', 'state-db']),
+    copilot: providerSettings(['auto', 'file'])
+  }
+};
+
+const windowMapping: Schema = {
+  type: 'object',
+  required: ['label'],
+  fields: {
+    id: str,
+    label: str,
+    each: str,
+    used: str,
+    limit: { type: 'union', options: [str, { type: 'number' }] },
+    utilization: str,
+    used_fraction: str,
+    resets_at: str,
+    window_seconds: positive
+  }
+};
+
+const customProvider: Schema = {
+  type: 'object',
+  required: ['url'],
+  fields: {
+    name: str,
+    url: str,
+    method: { type: 'enum', values: ['GET', 'POST', 'PUT', 'PATCH'], ignoreCase: true },
+    headers: { type: 'map', values: str },
+    body: { type: 'any' },
+    timeout: positive,
+    dashboard_url: str,
+    plan: str,
+    account: str,
+    windows: { type: 'array', items: windowMapping }
+  }
+};
+
+const CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    manual: { type: 'map', values: manual },
+    providers,
+    custom_providers: { type: 'map', values: customProvider },
+    http: {
+      type: 'object',
+      fields: { timeout: positive, retries: count, proxy: str, no_proxy: str, ca_file: str }
+    },
+    history: {
+      type: 'object',
+      fields: { enabled: bool, path: str, retention_days: positive, compact_after_days: positive }
+    },
+    alerts: {
+      type: 'object',
+      fields: {
+        notify_on_clear: bool,
+        notify_on_reset: bool,
+        rules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['provider', 'threshold'],
+            fields: { name: str, provider: str, window: str, threshold: percent, clear_below: percent }
+          }
+        },
+        sinks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['type'],
+            fields: {
+              type: { type: 'enum', values: ['desktop', 'webhook', 'command'] },
+              url: str,
+              headers: { type: 'map', values: str },
+              command: str
+            }
+          }
+        }
+      }
+    },
+    api_keys: { type: 'map', values: str }
+  }
+};
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a mapping';
+  return `a ${typeof value}`;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(key: string, known: string[]): string {
+  const best = known
+    .map(k => ({ k, d: editDistance(key, k) }))
+    .sort((x, y) => x.d - y.d)[0];
+  return best && best.d <= 2 ? ` (did you mean "${best.k}"?)` : '';
+}
+
+function check(value: unknown, schema: Schema, path: (string | number)[], issues: ConfigIssue[]): void {
+  // An empty YAML key (`providers:` with everything commented out) reads as null
+  if (value === null || value === undefined || schema.type === 'any') return;
+
+  const fail = (message: string) => issues.push({ severity: 'error', path, message });
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') fail(`expected a string, got ${typeName(value)}`);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail(`expected true or false, got ${typeName(value)}`);
+      return;
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        fail(`expected a number, got ${typeName(value)}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        fail(`expected a whole number, got ${value}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        fail(`must be at least ${schema.min}, got ${value}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        fail(`must be at most ${schema.max}, got ${value}`);
+      }
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(schema.ignoreCase ? value.toUpperCase() : value)) {
+        fail(`expected one of ${schema.values.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      return;
+    case 'union':
+      if (!schema.options.some(option => {
+        const nested: ConfigIssue[] = [];
+        check(value, option, path, nested);
+        return nested.length === 0;
+      })) {
+        fail(`unexpected ${typeName(value)}`);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail(`expected a list, got ${typeName(value)}`);
+        return;
+      }
+      value.forEach((item, i) => check(item, schema.items, [...path, i], issues));
+      return;
+    case 'map':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        fail(`expected a mapping, got ${typeName(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value as object)) {
+        check(item, schema.keys?.[key] || schema.values, [...path, key], issues);
+      }
+      return;
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        fail(`expected a mapping, got ${typeName(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          fail(`missing required key "${key}"`);
+        }
+      }
+      const known = Object.keys(schema.fields);
+      for (const [key, item] of Object.entries(record)) {
+        const field = schema.fields[key];
+        if (!field) {
+          issues.push({ severity: 'warning', path: [...path, key], message: `unknown key${suggest(key, known)}` });
+          continue;
+        }
+        check(item, field, [...path, key], issues);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Best-effort line number (1-based) of a path in block-style YAML: walk down
+ * by indentation, matching `key:` for mappings and `- ` for list items
+ */
+export function locateLine(source: string, path: (string | number)[]): number | undefined {
+  const lines = source.split('\n');
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const isContent = (line: string) => line.trim() !== '' && !line.trimStart().startsWith('#');
+
+  let start = 0;
+  let parentIndent = -1;
+  let found: number | undefined;
+
+  for (const segment of path) {
+    let match = -1;
+    let itemIndex = -1;
+    let childIndent = -1;
+    for (let i = start; i < lines.length; i++) {
+      const line = lines[i];
+      if (!isContent(line)) continue;
+      const indent = indentOf(line);
+      const text = line.trimStart();
+      // List items may sit at the same indent as their key ("rules:\n- a")
+      const sameIndentItem = typeof segment === 'number' && indent === parentIndent && text.startsWith('-');
+      if (indent <= parentIndent && !sameIndentItem) break;
+      if (childIndent === -1) childIndent = indent;
+      if (indent !== childIndent) continue;
+
+      if (typeof segment === 'number') {
+        if (text.startsWith('-') && ++itemIndex === segment) match = i;
+      } else if (text.match(/^(["']?)([^"':#]+)\1\s*:/)?.[2]?.trim() === segment) {
+        match = i;
+      }
+      if (match !== -1) break;
+    }
+    if (match === -1) return found;
+
+    found = match + 1;
+    const indent = indentOf(lines[match]);
+    if (typeof segment === 'number') {
+      // Treat "- key: value" as if the first key started on its own line
+      // under the dash, so the item's keys all share one indent
+      lines[match] = ' '.repeat(indent + 2) + lines[match].trimStart().slice(1).trimStart();
+      start = match;
+      parentIndent = indent + 1;
+    } else {
+      start = match + 1;
+      parentIndent = indent;
+    }
+  }
+  return found;
+}
+
+export function validateConfig(value: unknown, source?: string): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (value !== null && value !== undefined && (typeof value !== 'object' || Array.isArray(value))) {
+    return [{ severity: 'error', path: [], message: `expected a mapping at the top level, got ${typeName(value)}`, line: 1 }];
+  }
+  check(value, CONFIG_SCHEMA, [], issues);
+  if (source) {
+    for (const issue of issues) {
+      issue.line = locateLine(source, issue.path);
+    }
+  }
+  return issues;
+}
+
+export function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, seg) =>
+    typeof seg === 'number' ? `${acc}[${seg}]` : (acc ? `${acc}.${seg}` : seg), '');
+}
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import chalk from 'chalk';
+import { Config } from './config.js';
+import { createProvider } from './registry.js';
+import { DiagnosticCheck, CheckLevel } from './providers/base.js';
+import { commandExists, getCliStatus } from './cli_runner.js';
+import { httpRequest } from './http.js';
+import { classifyError } from './errors.js';
+import { getCachePath, readSecureCache } from './secure_cache.js';
+import { secretCacheEntries, expandHome } from './secret_store.js';
+import { getSnapshotPath } from './snapshot.js';
+import { formatDuration } from './utils.js';
+
+export interface DoctorSection {
+  title: string;
+  checks: DiagnosticCheck[];
+}
+
+const REACH_TIMEOUT = 5000;
+
+const MARKS: Record<CheckLevel, string> = {
+  ok: chalk.green('✔'),
+  warn: chalk.yellow('!'),
+  fail: chalk.red('✘'),
+  info: chalk.dim('·')
+};
+
+async function cliChecks(cli: string, installCommand: string): Promise<DiagnosticCheck[]> {
+  if (!cli) return [];
+  if (!(await commandExists(cli))) {
+    return [{
+      level: 'warn',
+      label: 'CLI',
+      detail: `${cli} not installed` + (installCommand ? ` (${installCommand})` : '')
+    }];
+  }
+  const status = await getCliStatus(cli);
+  return [{ level: 'ok', label: 'CLI', detail: status ? `${cli}: ${status}` : `${cli} installed` }];
+}
+
+// Any HTTP response counts: a 401/404 still proves DNS, proxy and TLS work
+async function reachabilityCheck(url: string): Promise<DiagnosticCheck> {
+  const started = Date.now();
+  try {
+    const resp = await httpRequest({ url, validateStatus: () => true }, { timeout: REACH_TIMEOUT, retries: 0 });
+    return { level: 'ok', label: 'Reachable', detail: `${url} (HTTP ${resp.status}, ${Date.now() - started}ms)` };
+  } catch (e) {
+    const err = classifyError(e);
+    return { level: 'fail', label: 'Reachable', detail: `${url}: ${err.message}` };
+  }
+}
+
+async function providerSection(key: string, config: Config): Promise<DoctorSection> {
+  const inst = createProvider(key, config, { auto_login: false });
+  if (!inst) {
+    return { title: key, checks: [{ level: 'fail', label: 'Provider', detail: 'unknown provider' }] };
+  }
+
+  const checks: DiagnosticCheck[] = [...await cliChecks(inst.cli_name, inst.install_command)];
+  try {
+    checks.push(...await inst.diagnose());
+  } catch (e: any) {
+    checks.push({ level: 'fail', label: 'Diagnose', detail: e?.message || String(e) });
+  }
+  checks.push(...await Promise.all(inst.endpoints().map(reachabilityCheck)));
+  return { title: key === inst.name ? key : `${inst.name} [${key}]`, checks };
+}
+
+function cacheSection(): DoctorSection {
+  const checks: DiagnosticCheck[] = [];
+  const cachePath = getCachePath();
+
+  if (!fs.existsSync(cachePath)) {
+    checks.push({ level: 'info', label: 'Secret cache', detail: `${cachePath} (not created yet)` });
+  } else {
+    const mode = fs.statSync(cachePath).mode & 0o777;
+    checks.push({
+      level: mode & 0o077 ? 'warn' : 'ok',
+      label: 'Secret cache',
+      detail: `${cachePath} (mode ${mode.toString(8)})`
+    });
+    if (readSecureCache() === null) {
+      checks.push({ level: 'warn', label: 'Secret cache', detail: 'cannot be decrypted; it is rebuilt on the next lookup' });
+    }
+    for (const entry of secretCacheEntries()) {
+      checks.push({
+        level: 'info',
+        label: 'Cached',
+        detail: `${entry.key}: ${entry.found ? 'found' : 'not found'}, ${formatDuration(entry.ageMs)} ago`
+      });
+    }
+  }
+
+  const snapshotPath = getSnapshotPath();
+  checks.push({
+    level: 'info',
+    label: 'Snapshot',
+    detail: fs.existsSync(snapshotPath) ? snapshotPath : `${snapshotPath} (not created yet)`
+  });
+  return { title: 'Cache', checks };
+}
+
+function environmentSection(config: Config): DoctorSection {
+  const env = process.env;
+  const proxy = config.http?.proxy || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy;
+  const checks: DiagnosticCheck[] = [
+    { level: 'info', label: 'Node', detail: `${process.version} on ${process.platform}` },
+    { level: 'info', label: 'Proxy', detail: proxy ? proxy.replace(/\/\/[^@/]*@/, '//***@') : 'none' }
+  ];
+  if (config.http?.ca_file) {
+    checks.push(fs.existsSync(expandHome(config.http.ca_file))
+      ? { level: 'ok', label: 'CA file', detail: config.http.ca_file }
+      : { level: 'fail', label: 'CA file', detail: `${config.http.ca_file} not found` });
+  }
+  return { title: 'Environment', checks };
+}
+
+export async function runDoctor(config: Config, keys: string[]): Promise<DoctorSection[]> {
+  // Sequential so keychain prompts and CLI status calls don't pile up
+  const sections: DoctorSection[] = [environmentSection(config)];
+  for (const key of keys) {
+    sections.push(await providerSection(key, config));
+  }
+  sections.push(cacheSection());
+  return sections;
+}
+
+export function renderDoctor(sections: DoctorSection[]): string {
+  const lines: string[] = [];
+  for (const section of sections) {
+    lines.push(chalk.bold(section.title));
+    const labelWidth = section.checks.reduce((max, c) => Math.max(max, c.label.length), 0);
+    for (const check of section.checks) {
+      const detail = check.level === 'info' ? chalk.dim(check.detail) : check.detail;
+      lines.push(`  ${MARKS[check.level]} ${check.label.padEnd(labelWidth)}  ${detail}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+export function hasFailures(sections: DoctorSection[]): boolean {
+  return sections.some(s => s.checks.some(c => c.level === 'fail'));
+}
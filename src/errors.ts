@@ -0,0 +1,112 @@
+/**
+ * Failure categories shown in panels, JSON output and the status line
+ */
+export type ErrorKind =
+  | 'not_logged_in'
+  | 'token_expired'
+  | 'network'
+  | 'rate_limited'
+  | 'server_error'
+  | 'unexpected_response'
+  | 'cli_missing';
+
+export const ERROR_KIND_LABELS: Record<ErrorKind, string> = {
+  not_logged_in: 'Not logged in',
+  token_expired: 'Token expired',
+  network: 'Network',
+  rate_limited: 'Rate limited',
+  server_error: 'Server error',
+  unexpected_response: 'Unexpected response',
+  cli_missing: 'CLI missing'
+};
+
+export class ProviderError extends Error {
+  kind: ErrorKind;
+  hint?: string;
+
+  constructor(kind: ErrorKind, message: string, hint?: string) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.hint = hint;
+  }
+}
+
+/**
+ * How to get out of each state. Provider specific commands are filled in by
+ * the caller; everything else is generic.
+ */
+export interface HintContext {
+  loginCommand?: string;
+  installCommand?: string;
+}
+
+export function defaultHint(kind: ErrorKind, ctx: HintContext = {}): string | undefined {
+  switch (kind) {
+    case 'not_logged_in':
+      return ctx.loginCommand ? `Run '${ctx.loginCommand}' to log in` : undefined;
+    case 'token_expired':
+      return ctx.loginCommand ? `Run '${ctx.loginCommand}' to log in again` : 'Log in again';
+    case 'network':
+      return 'Check the connection, or set http.proxy / HTTPS_PROXY and http.ca_file behind a corporate proxy';
+    case 'rate_limited':
+      return 'Wait a few minutes or raise --interval';
+    case 'server_error':
+      return 'The service is having trouble; it is retried on the next refresh';
+    case 'unexpected_response':
+      return 'The API may have changed; run with --verbose and include the logged response shape in a bug report';
+    case 'cli_missing':
+      return ctx.installCommand ? `Install it with '${ctx.installCommand}'` : undefined;
+  }
+}
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'ENOTFOUND',
+  'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'ERR_NETWORK', 'CERT_HAS_EXPIRED',
+  'DEPTH_ZERO_SELF_SIGNED_CERT', 'SELF_SIGNED_CERT_IN_CHAIN', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY'
+]);
+
+function hostOf(e: any): string {
+  try {
+    return new URL(e.config?.url).host;
+  } catch {
+    return 'the API';
+  }
+}
+
+/**
+ * Map anything thrown while fetching (axios errors, ProviderErrors, bugs) onto
+ * an ErrorKind with a readable message
+ */
+export function classifyError(e: any, ctx: HintContext = {}): ProviderError {
+  let err: ProviderError;
+  const status = e?.response?.status;
+
+  if (e instanceof ProviderError) {
+    err = e;
+  } else if (status === 401 || status === 403) {
+    err = new ProviderError('token_expired', `${hostOf(e)} rejected the token (HTTP ${status})`);
+  } else if (status === 429) {
+    const retryAfter = e.response.headers?.['retry-after'];
+    err = new ProviderError('rate_limited', `${hostOf(e)} is rate limiting requests` + (retryAfter ? ` (retry after ${retryAfter}s)` : ''));
+  } else if (status) {
+    err = new ProviderError(status >= 500 ? 'server_error' : 'unexpected_response', `HTTP ${status} from ${hostOf(e)}`);
+  } else if (e?.code && NETWORK_CODES.has(e.code)) {
+    err = new ProviderError('network', `Cannot reach ${hostOf(e)} (${e.code})`);
+  } else if (e?.isAxiosError) {
+    err = new ProviderError('network', `Request to ${hostOf(e)} failed: ${e.message}`);
+  } else {
+    err = new ProviderError('unexpected_response', e?.message || String(e));
+  }
+
+  if (!err.hint) err.hint = defaultHint(err.kind, ctx);
+  return err;
+}
+
+/**
+ * Fields to spread into a SubscriptionInfo
+ */
+export function errorFields(err: ProviderError): { error: string; error_kind: ErrorKind; hint?: string } {
+  return { error: err.message, error_kind: err.kind, hint: err.hint };
+}
@@ -0,0 +1,93 @@
+import { HistorySample } from './history.js';
+import { SubscriptionInfo, UsageProjection, UsageWindow } from './providers/base.js';
+
+interface Point {
+  at: number;
+  used: number;
+  resetsAt?: string;
+}
+
+const LOOKBACK_MS = 60 * 60 * 1000;
+const MIN_SPAN_MS = 5 * 60 * 1000;
+const MAX_POINTS = 240;
+
+// resets_at values that differ by more than this belong to different windows
+const RESET_TOLERANCE_MS = 60 * 1000;
+
+function sameWindow(a?: string, b?: string): boolean {
+  if (!a || !b) return true;
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) <= RESET_TOLERANCE_MS;
+}
+
+/**
+ * Keeps recent samples per provider window and projects when each
+ * window runs out at the current burn rate
+ */
+export class BurnRateTracker {
+  private points = new Map<string, Point[]>();
+
+  seed(samples: HistorySample[]): void {
+    for (const sample of samples) {
+      const at = new Date(sample.ts).getTime();
+      for (const w of sample.windows) {
+        this.push(sample.provider, w, at);
+      }
+    }
+  }
+
+  /**
+   * Record the fetch and return its windows with projections attached
+   */
+  track(key: string, info: SubscriptionInfo, at: Date): UsageWindow[] {
+    return info.windows.map(w => {
+      this.push(key, w, at.getTime());
+      const projection = this.project(key, w, at.getTime());
+      return projection ? { ...w, projection } : w;
+    });
+  }
+
+  private push(key: string, w: UsageWindow, at: number): void {
+    const id = `${key}|${w.id}`;
+    const list = this.points.get(id) || [];
+    const last = list[list.length - 1];
+    if (last && last.at >= at) return;
+
+    // A drop in usage or a moved reset time starts a fresh window
+    if (last && (w.used_fraction < last.used || !sameWindow(last.resetsAt, w.resets_at))) {
+      list.length = 0;
+    }
+
+    list.push({ at, used: w.used_fraction, resetsAt: w.resets_at });
+    if (list.length > MAX_POINTS) list.splice(0, list.length - MAX_POINTS);
+    this.points.set(id, list);
+  }
+
+  private project(key: string, w: UsageWindow, now: number): UsageProjection | null {
+    const list = (this.points.get(`${key}|${w.id}`) || []).filter(p => now - p.at <= LOOKBACK_MS);
+    if (list.length < 2) return null;
+
+    const first = list[0];
+    const last = list[list.length - 1];
+    const span = last.at - first.at;
+    if (span < MIN_SPAN_MS) return null;
+
+    const ratePerMs = (last.used - first.used) / span;
+    const ratePerHour = ratePerMs * 3600 * 1000;
+
+    let exhaustsAt: number | null = null;
+    if (ratePerMs > 0 && last.used < 1) {
+      exhaustsAt = now + (1 - last.used) / ratePerMs;
+    } else if (last.used >= 1) {
+      exhaustsAt = now;
+    }
+
+    const resetAt = w.resets_at ? new Date(w.resets_at).getTime() : NaN;
+    const beforeReset = exhaustsAt !== null && (isNaN(resetAt) || exhaustsAt < resetAt);
+
+    return {
+      rate_per_hour: Math.round(ratePerHour * 10000) / 10000,
+      exhausts_at: exhaustsAt !== null ? new Date(exhaustsAt).toISOString() : null,
+      exhausts_before_reset: beforeReset
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { HistoryConfig } from './config.js';
+import { SubscriptionInfo, UsageWindow } from './providers/base.js';
+
+export interface HistorySample {
+  ts: string;
+  provider: string;
+  windows: UsageWindow[];
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_COMPACT_AFTER_DAYS = 2;
+const COMPACT_BUCKET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getXdgDataHome(): string {
+  return process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+}
+
+export function getHistoryPath(settings: HistoryConfig = {}): string {
+  if (settings.path) return path.resolve(settings.path.replace(/^~(?=$|\/)/, os.homedir()));
+  return path.join(getXdgDataHome(), 'ai_subscription_monitor', 'history.ndjson');
+}
+
+export function isHistoryEnabled(settings: HistoryConfig = {}): boolean {
+  return settings.enabled !== false;
+}
+
+/**
+ * Append a successful fetch; results with errors or without windows are skipped
+ */
+export function recordSample(key: string, info: SubscriptionInfo, at: Date, settings: HistoryConfig = {}): void {
+  if (!isHistoryEnabled(settings)) return;
+  if (info.error || info.windows.length === 0) return;
+
+  const sample: HistorySample = {
+    ts: at.toISOString(),
+    provider: key,
+    windows: info.windows.map(({ projection, ...w }) => w)
+  };
+
+  try {
+    const p = getHistoryPath(settings);
+    // Account keys and usage patterns are private, like the snapshot
+    fs.mkdirSync(path.dirname(p), { recursive: true, mode: 0o700 });
+    fs.appendFileSync(p, JSON.stringify(sample) + '\n', { mode: 0o600 });
+  } catch {
+    // history is best effort
+  }
+}
+
+export function readHistory(settings: HistoryConfig = {}, since?: Date, provider?: string): HistorySample[] {
+  const p = getHistoryPath(settings);
+  if (!fs.existsSync(p)) return [];
+
+  const samples: HistorySample[] = [];
+  const content = fs.readFileSync(p, 'utf8');
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const sample = JSON.parse(line) as HistorySample;
+      if (!sample.ts || !Array.isArray(sample.windows)) continue;
+      if (provider && sample.provider !== provider && !sample.provider.startsWith(`${provider}:`)) continue;
+      if (since && new Date(sample.ts) < since) continue;
+      samples.push(sample);
+    } catch {
+      // skip torn lines from interrupted writes
+    }
+  }
+  return samples.sort((a, b) => a.ts.localeCompare(b.ts));
+}
+
+/**
+ * Drop samples past retention_days and thin samples older than
+ * compact_after_days down to one per provider per hour
+ */
+export function compactHistory(settings: HistoryConfig = {}, now: Date = new Date()): void {
+  if (!isHistoryEnabled(settings)) return;
+
+  const p = getHistoryPath(settings);
+  if (!fs.existsSync(p)) return;
+
+  const retentionMs = (settings.retention_days ?? DEFAULT_RETENTION_DAYS) * DAY_MS;
+  const compactMs = (settings.compact_after_days ?? DEFAULT_COMPACT_AFTER_DAYS) * DAY_MS;
+
+  try {
+    const samples = readHistory(settings);
+    const kept: HistorySample[] = [];
+    const seenBuckets = new Set<string>();
+
+    // Walk newest first so each compacted bucket keeps its latest sample
+    for (let i = samples.length - 1; i >= 0; i--) {
+      const sample = samples[i];
+      const age = now.getTime() - new Date(sample.ts).getTime();
+      if (age > retentionMs) continue;
+      if (age > compactMs) {
+        const bucket = `${sample.provider}:${Math.floor(new Date(sample.ts).getTime() / COMPACT_BUCKET_MS)}`;
+        if (seenBuckets.has(bucket)) continue;
+        seenBuckets.add(bucket);
+      }
+      kept.push(sample);
+    }
+    kept.reverse();
+
+    if (kept.length === samples.length) return;
+
+    const tmpPath = `${p}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, kept.map(s => JSON.stringify(s)).join('\n') + (kept.length ? '\n' : ''), { mode: 0o600 });
+    fs.renameSync(tmpPath, p);
+  } catch {
+    // leave the file untouched on failure
+  }
+}
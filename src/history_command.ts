@@ -0,0 +1,117 @@
+import chalk from 'chalk';
+import { HistorySample } from './history.js';
+import { ljustCJK, displayWidth, formatLocalTime } from './utils.js';
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+const SPARK_WIDTH = 40;
+
+interface Series {
+  id: string;
+  label: string;
+  points: { ts: string; value: number }[];
+}
+
+function groupByProvider(samples: HistorySample[]): Map<string, HistorySample[]> {
+  const groups = new Map<string, HistorySample[]>();
+  for (const sample of samples) {
+    const list = groups.get(sample.provider) || [];
+    list.push(sample);
+    groups.set(sample.provider, list);
+  }
+  return groups;
+}
+
+function buildSeries(samples: HistorySample[]): Series[] {
+  const series = new Map<string, Series>();
+  for (const sample of samples) {
+    for (const w of sample.windows) {
+      let s = series.get(w.id);
+      if (!s) {
+        s = { id: w.id, label: w.label, points: [] };
+        series.set(w.id, s);
+      }
+      // Keep the most recent label in case a provider renames a window
+      s.label = w.label;
+      s.points.push({ ts: sample.ts, value: w.used_fraction });
+    }
+  }
+  return [...series.values()];
+}
+
+function colorFor(ratio: number) {
+  if (ratio >= 0.9) return chalk.red;
+  if (ratio >= 0.7) return chalk.yellow;
+  return chalk.green;
+}
+
+function pct(ratio: number): string {
+  return `${(ratio * 100).toFixed(0)}%`;
+}
+
+export function sparkline(values: number[], width: number = SPARK_WIDTH): string {
+  if (values.length === 0) return '';
+
+  // Downsample into at most `width` buckets, keeping the peak of each
+  const buckets: number[] = [];
+  const size = Math.max(1, Math.ceil(values.length / width));
+  for (let i = 0; i < values.length; i += size) {
+    buckets.push(Math.max(...values.slice(i, i + size)));
+  }
+
+  return buckets.map(v => {
+    const ratio = Math.max(0, Math.min(1, v));
+    const idx = Math.min(SPARK_CHARS.length - 1, Math.floor(ratio * SPARK_CHARS.length));
+    return colorFor(ratio)(SPARK_CHARS[idx]);
+  }).join('');
+}
+
+function renderSparklines(provider: string, samples: HistorySample[]): string[] {
+  const lines = [chalk.bold(provider)];
+  const series = buildSeries(samples);
+  const labelWidth = series.reduce((max, s) => Math.max(max, displayWidth(s.label)), 0);
+
+  for (const s of series) {
+    const values = s.points.map(p => p.value);
+    const current = values[values.length - 1];
+    const stats = `now ${pct(current)}  min ${pct(Math.min(...values))}  max ${pct(Math.max(...values))}  (${values.length} samples)`;
+    lines.push(`  ${chalk.dim(ljustCJK(s.label, labelWidth))}  ${sparkline(values)}  ${chalk.dim(stats)}`);
+  }
+  return lines;
+}
+
+function renderTable(provider: string, samples: HistorySample[], limit: number): string[] {
+  const lines = [chalk.bold(provider)];
+  const series = buildSeries(samples);
+  const rows = samples.slice(-limit);
+
+  const timeWidth = 15;
+  const colWidths = series.map(s => Math.max(displayWidth(s.label), 5));
+  const header = ljustCJK('Time', timeWidth) + series.map((s, i) => '  ' + ljustCJK(s.label, colWidths[i])).join('');
+  lines.push('  ' + chalk.dim(header));
+
+  for (const sample of rows) {
+    let row = ljustCJK(formatLocalTime(sample.ts), timeWidth);
+    series.forEach((s, i) => {
+      const w = sample.windows.find(w => w.id === s.id);
+      const cell = w ? colorFor(w.used_fraction)(ljustCJK(pct(w.used_fraction), colWidths[i])) : chalk.dim(ljustCJK('—', colWidths[i]));
+      row += '  ' + cell;
+    });
+    lines.push('  ' + row);
+  }
+  return lines;
+}
+
+export function renderHistory(samples: HistorySample[], format: 'sparkline' | 'table', limit: number = 50): string {
+  if (samples.length === 0) {
+    return chalk.dim('No history recorded yet. Run the dashboard to collect samples.');
+  }
+
+  const blocks: string[] = [];
+  for (const [provider, group] of groupByProvider(samples)) {
+    const lines = format === 'table'
+      ? renderTable(provider, group, limit)
+      : renderSparklines(provider, group);
+    blocks.push(lines.join('\n'));
+  }
+  return blocks.join('\n\n');
+}
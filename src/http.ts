@@ -0,0 +1,251 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { Duplex } from 'stream';
+import { HttpConfig } from './config.js';
+import { expandHome } from './secret_store.js';
+import { logDebug, isLogging, redactUrl, describeShape } from './logger.js';
+import { isReplaying, replayResponse, recordResponse } from './traffic.js';
+
+/**
+ * Shared request layer for providers and notifiers: timeouts, retries with
+ * backoff, proxies and extra CA certificates configured in one place
+ */
+export interface RequestOptions {
+  timeout?: number;   // Milliseconds
+  retries?: number;   // Extra attempts after a retryable failure
+  idempotent?: boolean;   // Retry a POST that only reads (other POSTs are sent once)
+}
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 2;
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+// A Retry-After longer than this is treated as "give up for this refresh"
+const MAX_RETRY_AFTER_MS = 30000;
+
+// Transient network failures; TLS and DNS "not found" errors won't fix themselves
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE',
+  'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'ERR_NETWORK'
+]);
+
+interface HttpState {
+  config: HttpConfig;
+  ca?: string[];
+  agents: Map<string, https.Agent>;
+}
+
+let state: HttpState = { config: {}, agents: new Map() };
+
+export function configureHttp(config: HttpConfig = {}): void {
+  let ca: string[] | undefined;
+  if (config.ca_file) {
+    try {
+      // Keep the bundled roots so public endpoints still verify
+      ca = [...tls.rootCertificates, fs.readFileSync(expandHome(config.ca_file), 'utf8')];
+    } catch {
+      console.error(`Cannot read ca_file ${config.ca_file}; using the default certificates`);
+    }
+  }
+  state = { config, ca, agents: new Map() };
+}
+
+/**
+ * Strip the trailing slash from a configured base URL, or use the default
+ */
+export function baseUrl(configured: string | undefined, fallback: string): string {
+  return (configured || fallback).replace(/\/+$/, '');
+}
+
+function proxyFor(target: URL): URL | null {
+  const env = process.env;
+  const noProxy = state.config.no_proxy ?? env.NO_PROXY ?? env.no_proxy ?? '';
+  if (bypassesProxy(target, noProxy)) return null;
+
+  const raw = state.config.proxy
+    || (target.protocol === 'https:'
+      ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+      : env.HTTP_PROXY || env.http_proxy);
+  if (!raw) return null;
+  try {
+    return new URL(raw.includes('://') ? raw : `http://${raw}`);
+  } catch {
+    return null;
+  }
+}
+
+// NO_PROXY: comma separated hosts, domain suffixes (".corp" or "corp") and "*"
+function bypassesProxy(target: URL, noProxy: string): boolean {
+  const host = target.hostname.toLowerCase();
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+    if (entry === '*') return true;
+    let [pattern, entryPort] = entry.toLowerCase().split(':');
+    if (entryPort && entryPort !== port) return false;
+    pattern = pattern.replace(/^\*?\./, '');
+    return host === pattern || host.endsWith(`.${pattern}`);
+  });
+}
+
+/**
+ * HTTPS through an HTTP(S) proxy via CONNECT. axios' built-in proxy support
+ * sends plain requests to the proxy, which most corporate proxies reject for
+ * HTTPS targets.
+ */
+class TunnelAgent extends https.Agent {
+  constructor(private proxy: URL, options: https.AgentOptions, private connectTimeout: number) {
+    super(options);
+  }
+
+  createConnection(options: any, callback?: (err: Error | null, stream: Duplex) => void): Duplex | null | undefined {
+    const done = callback || (() => {});
+    // The agent ignores the stream argument when an error is passed
+    const fail = (err: Error) => done(err, undefined as unknown as Duplex);
+    const headers: Record<string, string> = { Host: `${options.host}:${options.port}` };
+    if (this.proxy.username) {
+      const auth = `${decodeURIComponent(this.proxy.username)}:${decodeURIComponent(this.proxy.password)}`;
+      headers['Proxy-Authorization'] = `Basic ${Buffer.from(auth).toString('base64')}`;
+    }
+
+    const client = this.proxy.protocol === 'https:' ? https : http;
+    const connectReq = client.request({
+      host: this.proxy.hostname,
+      port: this.proxy.port || (this.proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: `${options.host}:${options.port}`,
+      headers,
+      agent: false
+    });
+
+    connectReq.setTimeout(this.connectTimeout, () => {
+      connectReq.destroy(new Error(`Proxy ${this.proxy.host} did not answer in time`));
+    });
+    connectReq.once('connect', (res, socket) => {
+      connectReq.setTimeout(0);
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        fail(new Error(`Proxy ${this.proxy.host} refused the tunnel (HTTP ${res.statusCode})`));
+        return;
+      }
+      done(null, tls.connect({ ...options, socket, servername: options.servername || options.host }));
+    });
+    connectReq.once('error', fail);
+    connectReq.end();
+    return undefined;
+  }
+}
+
+function transportFor(url: string, timeout: number): Pick<AxiosRequestConfig, 'httpsAgent' | 'proxy'> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return {};
+  }
+
+  const proxy = proxyFor(target);
+  if (!proxy) {
+    if (!state.ca || target.protocol !== 'https:') return { proxy: false };
+    return { proxy: false, httpsAgent: cachedAgent('direct', () => new https.Agent({ ca: state.ca })) };
+  }
+
+  if (target.protocol === 'https:') {
+    return {
+      proxy: false,
+      httpsAgent: cachedAgent(`tunnel ${proxy.href} ${timeout}`, () => new TunnelAgent(proxy, { ca: state.ca }, timeout))
+    };
+  }
+
+  // Plain HTTP targets are forwarded by the proxy as-is
+  return {
+    proxy: {
+      protocol: proxy.protocol.replace(':', ''),
+      host: proxy.hostname,
+      port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+      auth: proxy.username
+        ? { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) }
+        : undefined
+    }
+  };
+}
+
+function cachedAgent(key: string, create: () => https.Agent): https.Agent {
+  let agent = state.agents.get(key);
+  if (!agent) {
+    agent = create();
+    state.agents.set(key, agent);
+  }
+  return agent;
+}
+
+function isRetryable(e: any): boolean {
+  const status = e.response?.status;
+  if (status) return status === 429 || status >= 500;
+  return !axios.isCancel(e) && RETRYABLE_CODES.has(e.code);
+}
+
+function retryDelay(e: any, attempt: number): number | null {
+  const header = e.response?.headers?.['retry-after'];
+  if (header !== undefined) {
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+    if (!Number.isNaN(ms)) {
+      return ms > MAX_RETRY_AFTER_MS ? null : Math.max(0, ms);
+    }
+  }
+  const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * backoff / 2;
+}
+
+/**
+ * axios request with the configured timeout, proxy and CA. Network errors,
+ * 429 and 5xx are retried with exponential backoff, honouring Retry-After;
+ * POSTs only when marked idempotent, since the server may have handled one
+ * that timed out.
+ * Errors are the original axios errors, so callers can still inspect
+ * `e.response?.status`. Under --replay the recorded outcome is returned instead.
+ */
+export async function httpRequest<T = any>(request: AxiosRequestConfig, opts: RequestOptions = {}): Promise<AxiosResponse<T>> {
+  if (isReplaying()) return replayResponse<T>(request);
+  try {
+    const resp = await sendWithRetries<T>(request, opts);
+    recordResponse(request, resp);
+    return resp;
+  } catch (e) {
+    recordResponse(request, e);
+    throw e;
+  }
+}
+
+async function sendWithRetries<T>(request: AxiosRequestConfig, opts: RequestOptions): Promise<AxiosResponse<T>> {
+  const timeout = opts.timeout ?? state.config.timeout ?? DEFAULT_TIMEOUT;
+  const method = (request.method || 'GET').toUpperCase();
+  const retries = opts.idempotent || IDEMPOTENT_METHODS.has(method)
+    ? Math.max(0, opts.retries ?? state.config.retries ?? DEFAULT_RETRIES)
+    : 0;
+  const transport = transportFor(request.url || '', timeout);
+
+  const label = `${method} ${redactUrl(request.url || '')}`;
+
+  for (let attempt = 0; ; attempt++) {
+    const started = Date.now();
+    try {
+      const resp = await axios.request<T>({ timeout, ...transport, ...request });
+      if (isLogging()) {
+        logDebug(`${label} -> ${resp.status} in ${Date.now() - started}ms shape=${describeShape(resp.data)}`);
+      }
+      return resp;
+    } catch (e: any) {
+      const outcome = e.response?.status ?? e.code ?? e.message;
+      const delay = attempt < retries && isRetryable(e) ? retryDelay(e, attempt) : null;
+      logDebug(`${label} -> ${outcome} in ${Date.now() - started}ms` + (delay !== null ? `, retrying in ${Math.round(delay)}ms` : ''));
+      if (delay === null) throw e;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -2,14 +2,26 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import boxen from 'boxen';
-import { loadConfig } from './config.js';
-import { OpenAIProvider } from './providers/openai.js';
-import { GeminiProvider } from './providers/gemini.js';
-import { AnthropicProvider } from './providers/anthropic.js';
-import { CursorProvider } from './providers/cursor.js';
-import { SubscriptionInfo, ProviderBase } from './providers/base.js';
-import { renderBar, ljustCJK, displayWidth } from './utils.js';
+import { loadConfig, Config, ConfigError } from './config.js';
+import { builtinProviderKeys, allProviderKeys, createProvider, filterProviderKeys } from './registry.js';
+import { SubscriptionInfo } from './providers/base.js';
+import { toRecord, formatSnapshot, ProviderRecord } from './output.js';
+import { loadSnapshot, saveSnapshot, isFresh } from './snapshot.js';
+import { templateProviders, defaultTemplate, renderStatusline, renderWaybar } from './statusline.js';
+import { recordSample, readHistory, compactHistory } from './history.js';
+import { renderHistory } from './history_command.js';
+import { AlertEvaluator } from './alerts.js';
+import { dispatchAlert } from './notifiers.js';
+import { BurnRateTracker } from './forecast.js';
+import { renderPanels } from './render.js';
+import { Tui } from './tui.js';
+import { configureHttp } from './http.js';
+import { runDoctor, renderDoctor, hasFailures } from './doctor.js';
+import { configureLogging, logDebug } from './logger.js';
+import { configureTraffic, isReplaying } from './traffic.js';
+import { classifyError, errorFields } from './errors.js';
+import { initConfig, validateConfigFile, showConfig } from './config_command.js';
+import { parseDuration } from './utils.js';
 import { readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
@@ -32,60 +44,187 @@ program
   .name('ai-sub')
   .description('Monitor AI subscription usage')
   .version(version)
-  .option('-C, --config-dir <path>', 'Path to config directory', '.')
-  .option('-p, --provider <name...>', 'Specific providers to check (openai, gemini, claude, cursor)')
+  .option('-C, --config-dir <path>', 'Directory containing config.yaml (default: $XDG_CONFIG_HOME/ai_subscription_monitor, then .)')
+  .option('-p, --provider <name...>', 'Specific providers to check (openai, gemini, claude, cursor, copilot, or provider:account)')
   .option('-i, --interval <seconds>', 'Refresh interval in seconds', parseInt)
-  .option('--once', 'Run once and exit');
+  .option('--once', 'Run once and exit')
+  .option('--compact', 'One line per usage window')
+  .option('--no-tui', 'Plain redraw instead of the interactive view in watch mode')
+  .option('--json', 'Print results as JSON instead of the dashboard (NDJSON in watch mode)')
+  .option('--ndjson', 'Print one JSON line per refresh')
+  .option('-v, --verbose', 'Log requests, status codes, latency and response shapes to stderr')
+  .option('--log-file <path>', 'Write the --verbose log to a file instead of stderr')
+  .option('--record <dir>', 'Save provider HTTP responses and CLI output (tokens redacted) to <dir>')
+  .option('--replay <dir>', 'Serve responses recorded with --record instead of using the network');
 
-program.parse();
+program.hook('preAction', () => {
+    const opts = program.opts();
+    configureLogging({ verbose: opts.verbose, logFile: opts.logFile });
+    try {
+        configureTraffic({ record: opts.record, replay: opts.replay });
+    } catch (e: any) {
+        program.error(e.message);
+    }
+});
+
+program
+  .command('history')
+  .description('Show how usage windows changed over time')
+  .argument('[provider]', 'Provider to show (openai, gemini, claude, cursor, copilot)')
+  .option('-s, --since <duration>', 'How far back to look, e.g. 12h, 7d', '7d')
+  .option('-f, --format <format>', 'Output format (sparkline, table)', 'sparkline')
+  .option('-n, --limit <rows>', 'Maximum rows per provider in table format', parseInt)
+  .action((provider: string | undefined, cmdOpts: any) => {
+    const config = loadConfig(program.opts().configDir);
+    const sinceMs = parseDuration(cmdOpts.since);
+    if (sinceMs === null) {
+        console.error(`Invalid duration: ${cmdOpts.since}`);
+        process.exitCode = 1;
+        return;
+    }
+    const samples = readHistory(config.history, new Date(Date.now() - sinceMs), provider);
+    const format = cmdOpts.format === 'table' ? 'table' : 'sparkline';
+    console.log(renderHistory(samples, format, cmdOpts.limit || 50));
+  });
+
+program
+  .command('statusline')
+  .description('Print a one-line summary for tmux, shell prompts and status bars')
+  .option('-f, --format <template>', 'Template such as "C:{claude.5h}% X:{openai.primary}% G:{gemini.max}%"')
+  .option('--color <mode>', 'Color values by threshold (none, ansi, tmux, polybar, pango)', 'none')
+  .option('--waybar', 'Print Waybar custom module JSON')
+  .option('--max-age <duration>', 'Reuse cached results younger than this', '5m')
+  .option('--missing <text>', 'Text for values that are not available', '?')
+  .action(statusline);
+
+program
+  .command('doctor')
+  .description('Check CLIs, credentials, token expiry and API reachability for each provider')
+  .argument('[provider...]', 'Providers to check (default: all)')
+  .action(async (providers: string[]) => {
+    const config = loadConfig(program.opts().configDir);
+    configureHttp(config.http);
+    const keys = filterProviderKeys(allProviderKeys(config), providers.length > 0 ? providers : undefined);
+    const sections = await runDoctor(config, keys);
+    console.log(renderDoctor(sections));
+    if (hasFailures(sections)) process.exitCode = 1;
+  });
 
-const options = program.opts();
+const configCommand = program
+  .command('config')
+  .description('Create, check and inspect config.yaml');
 
-const PROVIDERS: Record<string, any> = {
-    openai: OpenAIProvider,
-    gemini: GeminiProvider,
-    claude: AnthropicProvider,
-    cursor: CursorProvider
-};
+configCommand
+  .command('init')
+  .description('Write a commented starter config.yaml')
+  .option('--force', 'Overwrite an existing config.yaml')
+  .action((cmdOpts: any) => {
+    if (!initConfig(program.opts().configDir, !!cmdOpts.force)) process.exitCode = 1;
+  });
+
+configCommand
+  .command('validate')
+  .description('Check config.yaml against the schema')
+  .argument('[file]', 'File to check (default: the config that would be loaded)')
+  .action((file: string | undefined) => {
+    if (!validateConfigFile(file, program.opts().configDir)) process.exitCode = 1;
+  });
+
+configCommand
+  .command('show')
+  .description('Print the resolved config with secrets redacted')
+  .action(() => {
+    const config = loadConfig(program.opts().configDir);
+    showConfig(config, program.opts().configDir);
+  });
+
+program.action(dashboard);
+
+let options: any = {};
+let machineOutput = false;
+let alerts: AlertEvaluator | null = null;
+let alertsKey = '';
+let tui: Tui | null = null;
+let inFlight: Promise<void> | null = null;
+const burnRates = new BurnRateTracker();
+
+// Built-in providers first, then custom_providers from config in declaration order
+let providerOrder: string[] = builtinProviderKeys();
+
+// Enough history to warm up the burn-rate lookback on startup
+const FORECAST_SEED_MS = 2 * 60 * 60 * 1000;
+
+let lastGoodConfig: Config | null = null;
 
 const cachedResults: Record<string, SubscriptionInfo | null> = {};
+const fetchedAt: Record<string, Date> = {};
 
-async function updateProvider(key: string, config: any) {
-    const ProviderClass = PROVIDERS[key];
-    if (!ProviderClass) return;
-    
+async function updateProvider(key: string, config: Config) {
+    const started = Date.now();
     try {
-        const manual = config.manual || {};
-        const inst = new ProviderClass(manual[key] || {});
+        // A replayed capture can't complete a login, so don't start one
+        const inst = createProvider(key, config, isReplaying() ? { auto_login: false } : {});
+        if (!inst) return;
         const result = await inst.fetch();
         if (result) {
+            logDebug(`${key}: ${result.error_kind || 'ok'} in ${Date.now() - started}ms` + (result.error ? ` (${result.error})` : ''));
+            const now = new Date();
+            if (!result.error) {
+                result.windows = burnRates.track(key, result, now);
+            }
             cachedResults[key] = result;
+            fetchedAt[key] = now;
+            // Replayed data is not real usage; keep it out of history, the snapshot and alerts
+            if (!isReplaying()) {
+                recordSample(key, result, now, config.history);
+                saveSnapshot([toRecord(key, result, now)]);
+                if (alerts?.enabled) {
+                    for (const event of alerts.evaluate(key, result)) {
+                        dispatchAlert(config.alerts?.sinks || [], event).catch(() => {});
+                    }
+                }
+            }
             render();
         }
-    } catch (e) {
-        // keep old data on error, or update if critical
-        // console.error(e);
+    } catch (e: any) {
+        // A provider bug must not stop the others; keep its last data and show the error
+        logDebug(`${key}: threw after ${Date.now() - started}ms: ${e?.stack || e}`);
+        cachedResults[key] = {
+            ...(cachedResults[key] || {
+                name: key,
+                status: 'Error',
+                windows: [],
+                notes: [],
+                reset_time: '',
+                limit_note: '',
+                dashboard_url: ''
+            }),
+            ...errorFields(classifyError(e))
+        };
+        render();
     }
 }
 
 function render() {
+    if (machineOutput) return;
+    if (tui) {
+        tui.draw();
+        return;
+    }
+
     let output = '';
     
     // Timestamp
     output += chalk.dim(new Date().toLocaleString()) + '\n\n';
 
     // Render panels in fixed order
-    const allKeys = Object.keys(PROVIDERS);
-    let hasContent = false;
-    
-    for (const key of allKeys) {
-        if (cachedResults[key]) {
-            output += renderPanel(cachedResults[key]!) + '\n';
-            hasContent = true;
-        }
-    }
+    const infos = providerOrder
+        .filter(key => cachedResults[key])
+        .map(key => cachedResults[key]!);
     
-    if (!hasContent) {
+    if (infos.length > 0) {
+        output += renderPanels(infos, { compact: options.compact }) + '\n';
+    } else {
         output += chalk.dim('Loading subscriptions...') + '\n';
     }
 
@@ -93,83 +232,84 @@ function render() {
     console.log(output);
 }
 
-function renderPanel(info: SubscriptionInfo): string {
-    const lines: string[] = [];
-    
-    if (info.error) {
-        lines.push(`${chalk.yellow('⚠')} ${chalk.red(info.error)}`);
-    }
+function selectedKeys(): string[] {
+    return filterProviderKeys(providerOrder, options.provider);
+}
 
-    const usageLines = info.usage_text.split('\n');
-    let maxLabelWidth = 0;
+function printSnapshot() {
+    const records = selectedKeys().map(key => toRecord(key, cachedResults[key] || null, fetchedAt[key] || null));
+    const pretty = !!options.json && !options.ndjson && !!options.once;
+    process.stdout.write(formatSnapshot(records, pretty) + '\n');
+}
 
-    // First pass to calculate max label width for alignment
-    // Regex matches "Label: 45%"
-    const barRegex = /^(.+?):\s*(\d+(?:\.\d+)?)\s*%/;
-    
-    for (const line of usageLines) {
-        if (!line.trim() || line === '—') continue;
-        const m = line.match(barRegex);
-        if (m) {
-            maxLabelWidth = Math.max(maxLabelWidth, displayWidth(m[1].trim()));
-        }
+// Skip a refresh while the previous one is still running
+function refresh(): Promise<void> {
+    if (!inFlight) {
+        tui?.setBusy(true);
+        inFlight = run().finally(() => {
+            inFlight = null;
+            tui?.setBusy(false);
+        });
     }
+    return inFlight;
+}
 
-    for (const line of usageLines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed === '—') continue;
-
-        const m = trimmed.match(barRegex);
-        if (m) {
-            const label = m[1].trim();
-            const pct = parseFloat(m[2]);
-            const rest = trimmed.substring(m[0].length).trim();
-            
-            let row = '';
-            if (label) {
-                row += chalk.dim(`${ljustCJK(label, maxLabelWidth)}: `);
-            } else if (maxLabelWidth > 0) {
-                row += ' '.repeat(maxLabelWidth + 2);
-            }
-            
-            row += renderBar(pct / 100, 4);
-            if (rest) {
-                row += chalk.dim(`  ${rest}`);
-            }
-            lines.push(row);
+// Rebuilt only when the rules change, so a reload keeps which alerts have fired
+function configureAlerts(config: Config) {
+    const key = JSON.stringify(config.alerts || {});
+    if (alerts && key === alertsKey) return;
+    alerts = new AlertEvaluator(config.alerts);
+    alertsKey = key;
+}
+
+// In watch mode a broken edit to config.yaml keeps the last config that loaded
+function currentConfig(): Config {
+    try {
+        lastGoodConfig = loadConfig(options.configDir);
+        tui?.setNotice(null);
+        if (alerts) configureAlerts(lastGoodConfig);
+    } catch (e) {
+        if (!(e instanceof ConfigError) || !lastGoodConfig) throw e;
+        if (tui) {
+            const [first, ...rest] = e.message.split('\n');
+            tui.setNotice(`Config reload failed, using the last good config: ${first}` + (rest.length > 0 ? ` (+${rest.length} more)` : ''));
         } else {
-            lines.push(trimmed);
+            console.error(e.message);
         }
     }
+    return lastGoodConfig;
+}
 
-    if (info.reset_time && info.reset_time !== '—') {
-        lines.push(`${chalk.cyan('↻')} ${chalk.dim(info.reset_time)}`);
-    }
-
-    // Add dashboard URL at bottom
-    // lines.push(chalk.dim('─'.repeat(72))); // separator?
-    // lines.push(chalk.dim(info.dashboard_url));
-
-    // Wrap in boxen
-    return boxen(lines.join('\n'), {
-        title: chalk.bold(info.name),
-        titleAlignment: 'center',
-        padding: { top: 0, bottom: 0, left: 1, right: 1 },
-        borderStyle: 'round',
-        borderColor: info.error ? 'yellow' : 'green',
-        width: 76,
-        // Hack: put dashboard URL in titleBottom if supported, or just ignore for now
-    }) + `\n${chalk.dim(info.dashboard_url.padStart(76/2 + info.dashboard_url.length/2))}`; 
-    // Manual centering of URL below box? Or just let it be.
+function startTui() {
+    tui = new Tui({
+        panels: () => selectedKeys()
+            .filter(key => cachedResults[key])
+            .map(key => ({ key, info: cachedResults[key]! })),
+        refresh: () => {
+            refresh().catch(console.error);
+        },
+        login: async (key: string) => {
+            const config = currentConfig();
+            configureHttp(config.http);
+            const inst = createProvider(key, config);
+            if (!inst || isReplaying()) return;
+            await inst.autoLogin();
+            await updateProvider(key, config);
+        },
+        quit: () => {
+            tui?.stop();
+            process.exit(0);
+        }
+    }, { compact: !!options.compact });
+    tui.start();
 }
 
 async function run() {
-    const config = loadConfig(options.configDir);
+    const config = currentConfig();
+    configureHttp(config.http);
+    providerOrder = allProviderKeys(config);
     
-    const selectedProviders = options.provider;
-    const keys = selectedProviders && selectedProviders.length > 0 
-        ? selectedProviders 
-        : Object.keys(PROVIDERS);
+    const keys = selectedKeys();
 
     // Initial render (shows old data or loading)
     render();
@@ -179,17 +319,101 @@ async function run() {
     
     // Wait for this round to finish (useful for --once)
     await Promise.all(promises);
+
+    if (machineOutput) {
+        printSnapshot();
+    }
 }
 
-// Main loop
-if (options.once) {
-    await run();
-} else {
+async function statusline(cmdOpts: any) {
+    // Provider progress logs must not end up in the status bar
+    console.log = console.error;
+
+    const config = loadConfig(program.opts().configDir);
+    configureHttp(config.http);
+    const maxAge = parseDuration(cmdOpts.maxAge);
+    if (maxAge === null) {
+        console.error(`Invalid duration: ${cmdOpts.maxAge}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const order = allProviderKeys(config);
+    const referenced = cmdOpts.format ? templateProviders(cmdOpts.format) : undefined;
+    const keys = filterProviderKeys(order, referenced);
+
+    // Only providers without a fresh snapshot are fetched, and never with a login prompt
+    // Under --replay everything comes from the capture and nothing is cached
+    const snapshot = isReplaying() ? {} : loadSnapshot();
+    const stale = keys.filter(key => !isFresh(snapshot[key], maxAge));
+    let fetched: ProviderRecord[] = [];
+    if (stale.length > 0) {
+        const results = await Promise.all(stale.map(async (key) => {
+            try {
+                const inst = createProvider(key, config, { auto_login: false });
+                const info = inst ? await inst.fetch() : null;
+                return info ? toRecord(key, info, new Date()) : null;
+            } catch (e: any) {
+                logDebug(`${key}: threw: ${e?.stack || e}`);
+                return null;
+            }
+        }));
+        fetched = results.filter((r): r is ProviderRecord => r !== null);
+        if (!isReplaying()) saveSnapshot(fetched);
+    }
+
+    const records = isReplaying()
+        ? Object.fromEntries(fetched.map(record => [record.provider, record]))
+        : loadSnapshot();
+    const template = cmdOpts.format || defaultTemplate(keys.filter(key => records[key]?.windows.length));
+    if (cmdOpts.waybar) {
+        console.info(renderWaybar(template, records, keys, cmdOpts.missing));
+        return;
+    }
+    const color = ['ansi', 'tmux', 'polybar', 'pango'].includes(cmdOpts.color) ? cmdOpts.color : 'none';
+    console.info(renderStatusline(template, records, { color, missing: cmdOpts.missing }).text);
+}
+
+async function dashboard() {
+    options = program.opts();
+    machineOutput = !!(options.json || options.ndjson);
+    if (machineOutput) {
+        // Providers log progress via console.log; keep stdout clean for JSON consumers
+        console.log = console.error;
+    }
+
+    const config = currentConfig();
+    compactHistory(config.history);
+    burnRates.seed(readHistory(config.history, new Date(Date.now() - FORECAST_SEED_MS)));
+
+    if (options.once) {
+        await run();
+        return;
+    }
+
+    // Alerts need state across refreshes, so they only run in watch mode
+    configureAlerts(config);
+
+    if (options.tui && !machineOutput && Tui.supported()) {
+        startTui();
+    } else if (!machineOutput) {
+        // Re-layout for the new width right away instead of at the next refresh
+        process.stdout.on('resize', render);
+    }
+
     // Initial run
-    await run();
+    await refresh();
     
     const interval = (options.interval || 60) * 1000;
     setInterval(() => {
-        run().catch(console.error);
+        refresh().catch(console.error);
     }, interval);
 }
+
+try {
+    await program.parseAsync();
+} catch (e) {
+    if (!(e instanceof ConfigError)) throw e;
+    console.error(e.message);
+    process.exitCode = 2;
+}
@@ -0,0 +1,64 @@
+/**
+ * Minimal JSONPath subset for mapping API responses:
+ *   $.a.b        nested keys
+ *   $.a[0]       array index
+ *   $['a-b']     quoted keys
+ *   $.items[*]   every element (returns an array)
+ *   @.field      relative to the current item (used with `each`)
+ */
+type Segment = { key: string } | { index: number } | { wildcard: true };
+
+function tokenize(expr: string): Segment[] | null {
+  let rest = expr.trim();
+  if (rest.startsWith('$') || rest.startsWith('@')) {
+    rest = rest.substring(1);
+  }
+
+  const segments: Segment[] = [];
+  const pattern = /^(?:\.([A-Za-z0-9_$-]+)|\[(\d+)\]|\[\*\]|\.\*|\[(?:'([^']*)'|"([^"]*)")\])/;
+  while (rest.length > 0) {
+    const m = rest.match(pattern);
+    if (!m) return null;
+    if (m[1] !== undefined) segments.push({ key: m[1] });
+    else if (m[2] !== undefined) segments.push({ index: parseInt(m[2], 10) });
+    else if (m[3] !== undefined || m[4] !== undefined) segments.push({ key: m[3] ?? m[4] });
+    else segments.push({ wildcard: true });
+    rest = rest.substring(m[0].length);
+  }
+  return segments;
+}
+
+export function isJsonPath(value: unknown): value is string {
+  return typeof value === 'string' && (value.startsWith('$') || value.startsWith('@'));
+}
+
+/**
+ * Evaluate `expr` against `data`. Returns undefined when the path doesn't
+ * resolve; paths containing a wildcard always return an array.
+ */
+export function queryJsonPath(data: any, expr: string): any {
+  const segments = tokenize(expr);
+  if (!segments) return undefined;
+
+  let current: any[] = [data];
+  let multi = false;
+
+  for (const seg of segments) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (value === null || value === undefined) continue;
+      if ('wildcard' in seg) {
+        multi = true;
+        if (Array.isArray(value)) next.push(...value);
+        else if (typeof value === 'object') next.push(...Object.values(value));
+      } else if ('index' in seg) {
+        if (Array.isArray(value) && seg.index < value.length) next.push(value[seg.index]);
+      } else if (typeof value === 'object' && seg.key in value) {
+        next.push(value[seg.key]);
+      }
+    }
+    current = next;
+  }
+
+  return multi ? current : current[0];
+}
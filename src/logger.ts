@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import { expandHome } from './secret_store.js';
+
+/**
+ * Diagnostics for --verbose / --log-file. Only request metadata and the shape
+ * of responses are written, never header or body values, so logs can be
+ * attached to bug reports as-is.
+ */
+interface LogTarget {
+  enabled: boolean;
+  file?: string;
+}
+
+let target: LogTarget = { enabled: false };
+
+export function configureLogging(opts: { verbose?: boolean; logFile?: string }): void {
+  const file = opts.logFile ? expandHome(opts.logFile) : undefined;
+  if (file) {
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    } catch {
+      // reported on first write
+    }
+  }
+  target = { enabled: !!(opts.verbose || file), file };
+}
+
+export function isLogging(): boolean {
+  return target.enabled;
+}
+
+export function logDebug(message: string): void {
+  if (!target.enabled) return;
+  const line = `${new Date().toISOString()} ${message}\n`;
+  if (target.file) {
+    try {
+      fs.appendFileSync(target.file, line, { mode: 0o600 });
+    } catch {
+      // logging must never break a refresh
+    }
+    return;
+  }
+  process.stderr.write(line);
+}
+
+const SECRET_PARAM = /(token|key|secret|auth|password|code|sig)/i;
+
+/**
+ * URL with credential-looking query parameters masked
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SECRET_PARAM.test(name)) parsed.searchParams.set(name, '***');
+    }
+    if (parsed.password) parsed.password = '***';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Type skeleton of a JSON value, e.g. {plan_type:string,rate_limit:{primary_window:{used_percent:number}}}
+ */
+export function describeShape(value: unknown, depth: number = 4): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return depth <= 0 ? `[${value.length}]` : `[${value.length}×${describeShape(value[0], depth - 1)}]`;
+  }
+  if (typeof value === 'object') {
+    const keys = Object.keys(value as object);
+    if (depth <= 0) return `{${keys.length} keys}`;
+    return `{${keys.map(k => `${k}:${describeShape((value as any)[k], depth - 1)}`).join(',')}}`;
+  }
+  return typeof value;
+}
@@ -0,0 +1,91 @@
+import { spawn } from 'child_process';
+import { AlertSink } from './config.js';
+import { AlertEvent } from './alerts.js';
+import { runBackgroundCommand } from './utils.js';
+import { httpRequest } from './http.js';
+
+const TITLE = 'AI Subscription Monitor';
+
+function eventTitle(event: AlertEvent): string {
+  if (event.type === 'fire') return `${TITLE}: limit warning`;
+  if (event.type === 'reset') return `${TITLE}: window reset`;
+  return `${TITLE}: back under limit`;
+}
+
+function eventEnv(event: AlertEvent): Record<string, string> {
+  return {
+    AI_SUB_EVENT: event.type,
+    AI_SUB_RULE: event.rule,
+    AI_SUB_PROVIDER: event.provider,
+    AI_SUB_PROVIDER_NAME: event.provider_name,
+    AI_SUB_WINDOW: event.window_id,
+    AI_SUB_WINDOW_LABEL: event.window_label,
+    AI_SUB_USED_PERCENT: String(event.used_percent),
+    AI_SUB_THRESHOLD: String(event.threshold),
+    AI_SUB_RESETS_AT: event.resets_at || '',
+    AI_SUB_MESSAGE: event.message
+  };
+}
+
+function notifyDesktop(event: AlertEvent): boolean {
+  const title = eventTitle(event);
+  let file: string;
+  let args: string[];
+
+  if (process.platform === 'darwin') {
+    const escape = (s: string) => s.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    file = 'osascript';
+    args = ['-e', `display notification "${escape(event.message)}" with title "${escape(title)}"`];
+  } else if (process.platform === 'win32') {
+    return false;
+  } else {
+    file = 'notify-send';
+    args = ['--app-name=ai-sub', title, event.message];
+  }
+
+  try {
+    const child = spawn(file, args, { detached: true, stdio: 'ignore' });
+    child.on('error', () => {});
+    child.unref();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function notifyWebhook(sink: AlertSink, event: AlertEvent): Promise<boolean> {
+  if (!sink.url) return false;
+  try {
+    // No retries: a receiver that timed out after accepting the POST would
+    // otherwise get the alert twice
+    await httpRequest({
+      method: 'POST',
+      url: sink.url,
+      data: { ...event, title: eventTitle(event), sent_at: new Date().toISOString() },
+      headers: { 'Content-Type': 'application/json', ...(sink.headers || {}) }
+    }, { retries: 0 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function dispatchAlert(sinks: AlertSink[], event: AlertEvent): Promise<void> {
+  await Promise.all(sinks.map(async (sink) => {
+    let ok = false;
+    switch (sink.type) {
+      case 'desktop':
+        ok = notifyDesktop(event);
+        break;
+      case 'webhook':
+        ok = await notifyWebhook(sink, event);
+        break;
+      case 'command':
+        ok = !!sink.command && runBackgroundCommand(sink.command, eventEnv(event));
+        break;
+    }
+    if (!ok) {
+      console.error(`[alerts] ${sink.type} sink failed for: ${event.message}`);
+    }
+  }));
+}
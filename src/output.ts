@@ -0,0 +1,71 @@
+import { SubscriptionInfo, UsageWindow, ModelUsage, TeamUsage, CreditBalance } from './providers/base.js';
+import { ErrorKind } from './errors.js';
+
+export interface ProviderRecord {
+  provider: string;
+  name: string;
+  status: string;
+  plan: string | null;
+  account: string | null;
+  windows: UsageWindow[];
+  notes: string[];
+  breakdown: ModelUsage[];
+  team: TeamUsage | null;
+  credits: CreditBalance | null;
+  error: string | null;
+  error_kind: ErrorKind | null;
+  hint: string | null;
+  fetched_at: string | null;
+}
+
+export interface Snapshot {
+  generated_at: string;
+  providers: ProviderRecord[];
+}
+
+export function toRecord(key: string, info: SubscriptionInfo | null, fetchedAt: Date | null): ProviderRecord {
+  if (!info) {
+    return {
+      provider: key,
+      name: key,
+      status: '',
+      plan: null,
+      account: null,
+      windows: [],
+      notes: [],
+      breakdown: [],
+      team: null,
+      credits: null,
+      error: 'No data',
+      error_kind: null,
+      hint: null,
+      fetched_at: null
+    };
+  }
+
+  return {
+    provider: key,
+    name: info.name,
+    status: info.status,
+    plan: info.plan || null,
+    account: info.account || null,
+    windows: info.windows,
+    notes: info.notes,
+    breakdown: info.breakdown || [],
+    team: info.team || null,
+    credits: info.credits || null,
+    error: info.error || null,
+    error_kind: info.error_kind || null,
+    hint: info.hint || null,
+    fetched_at: fetchedAt ? fetchedAt.toISOString() : null
+  };
+}
+
+// Pretty-printed for --json --once, single line for NDJSON streams
+export function formatSnapshot(records: ProviderRecord[], pretty: boolean): string {
+  const snapshot: Snapshot = {
+    generated_at: new Date().toISOString(),
+    providers: records
+  };
+  return pretty ? JSON.stringify(snapshot, null, 2) : JSON.stringify(snapshot);
+}
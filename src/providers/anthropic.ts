@@ -1,11 +1,22 @@
-import axios from 'axios';
-import { ProviderBase, SubscriptionInfo } from './base.js';
-import { getKeychainPassword } from '../keychain_cache.js';
+import path from 'path';
+import os from 'os';
+import { ProviderBase, SubscriptionInfo, UsageWindow, DiagnosticCheck } from './base.js';
+import { findSecret, lookupSecret, storeSecret, defaultSecretSources, describeSecretSource, SecretSource, SecretQuery } from '../secret_store.js';
+import { ProviderSettings } from '../config.js';
 import { runDetachedCommand } from '../utils.js';
+import { httpRequest, baseUrl } from '../http.js';
+import { ProviderError } from '../errors.js';
 
 const ANTHROPIC_DASHBOARD = "https://console.anthropic.com/settings/usage";
 const LOGIN_COOLDOWN_MS = 120000;
-let lastLoginLaunchAt = 0;
+// Per account (credential location), so one account's login doesn't hold back another's
+const lastLoginLaunchAt = new Map<string, number>();
+
+// Claude Code's public OAuth client
+const OAUTH_TOKEN_URL = "https://console.anthropic.com/v1/oauth/token";
+const ANTHROPIC_API_BASE = "https://api.anthropic.com";
+const OAUTH_CLIENT_ID = "9d1c250a-e61b-44d9-88ed-5944d1962f5e";
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
 
 interface ClaudeCredentials {
   accessToken: string;
@@ -13,15 +24,37 @@ interface ClaudeCredentials {
   expiresAt: number;
   subscriptionType?: string;
   rateLimitTier?: string;
+  /** Where the credentials were found, so refreshed tokens go back there */
+  source: SecretSource;
+  /** Full stored document, preserved on write-back */
+  stored: any;
+}
+
+const CREDENTIALS_SERVICE = 'Claude Code-credentials';
+
+function getCredentialsFilePath(settings: ProviderSettings): string {
+  if (settings.credentials_file) return settings.credentials_file;
+  const configDir = process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+  return path.join(configDir, '.credentials.json');
+}
+
+function credentialSources(settings: ProviderSettings): SecretSource[] {
+  const source = settings.credential_source || 'auto';
+  return source === 'auto' ? defaultSecretSources() : [source];
+}
+
+function credentialsQuery(settings: ProviderSettings): SecretQuery {
+  return { service: settings.keychain_service || CREDENTIALS_SERVICE, file: getCredentialsFilePath(settings) };
 }
 
-async function readClaudeCredentials(forceRefresh: boolean = false): Promise<ClaudeCredentials | null> {
-  const raw = forceRefresh
-    ? await getKeychainPassword('Claude Code-credentials', 0)
-    : await getKeychainPassword('Claude Code-credentials');
-  if (!raw) return null;
+async function readClaudeCredentials(settings: ProviderSettings, forceRefresh: boolean = false): Promise<ClaudeCredentials | null> {
+  const query = credentialsQuery(settings);
+  const found = forceRefresh
+    ? await findSecret(credentialSources(settings), query, 0)
+    : await findSecret(credentialSources(settings), query);
+  if (!found) return null;
   try {
-    const data = JSON.parse(raw);
+    const data = JSON.parse(found.value);
     const oauth = data.claudeAiOauth;
     if (!oauth?.accessToken) return null;
     return {
@@ -29,215 +62,355 @@ async function readClaudeCredentials(forceRefresh: boolean = false): Promise<Cla
       refreshToken: oauth.refreshToken,
       expiresAt: oauth.expiresAt,
       subscriptionType: oauth.subscriptionType,
-      rateLimitTier: oauth.rateLimitTier
+      rateLimitTier: oauth.rateLimitTier,
+      source: found.source,
+      stored: data
     };
   } catch {
     return null;
   }
 }
 
+/**
+ * Exchange the refresh token for a new access token and write the result back
+ * in Claude Code's own format. Refresh tokens rotate, so the CLI would be
+ * logged out if the new one were not persisted.
+ */
+async function refreshClaudeToken(settings: ProviderSettings, cached: ClaudeCredentials): Promise<ClaudeCredentials | null> {
+  // The cached copy may be up to 30 minutes old; if Claude Code has rotated the
+  // tokens since, use its new ones rather than spend a stale refresh token
+  const creds = await readClaudeCredentials(settings, true);
+  if (!creds?.refreshToken) return null;
+  if (creds.refreshToken !== cached.refreshToken || creds.accessToken !== cached.accessToken) {
+    return creds;
+  }
+  try {
+    // No retries: a refresh that succeeded server-side but timed out here has
+    // already rotated the refresh token, so a second attempt would fail anyway
+    const resp = await httpRequest({
+      method: "POST",
+      url: OAUTH_TOKEN_URL,
+      data: {
+        grant_type: "refresh_token",
+        refresh_token: creds.refreshToken,
+        client_id: OAUTH_CLIENT_ID
+      },
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ai-subscription-monitor/0.1"
+      }
+    }, { timeout: settings.timeout, retries: 0 });
+
+    const data = resp.data || {};
+    if (!data.access_token) return null;
 
+    const updated: ClaudeCredentials = {
+      ...creds,
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || creds.refreshToken,
+      expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : creds.expiresAt
+    };
+    updated.stored = {
+      ...creds.stored,
+      claudeAiOauth: {
+        ...(creds.stored?.claudeAiOauth || {}),
+        accessToken: updated.accessToken,
+        refreshToken: updated.refreshToken,
+        expiresAt: updated.expiresAt
+      }
+    };
 
-async function fetchUsage(token: string): Promise<{ data: any; isAuthError: boolean }> {
+    const saved = await storeSecret(creds.source, credentialsQuery(settings), JSON.stringify(updated.stored));
+    if (!saved) {
+      console.error(`[Claude] Token refreshed but could not be saved to ${creds.source}; run 'claude' to log in again if the CLI stops working`);
+    }
+    return updated;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchUsage(settings: ProviderSettings, token: string): Promise<{ data: any; isAuthError: boolean; cause?: unknown }> {
   try {
-    const resp = await axios.get("https://api.anthropic.com/api/oauth/usage", {
+    const resp = await httpRequest({
+      url: `${baseUrl(settings.base_url, ANTHROPIC_API_BASE)}/api/oauth/usage`,
       headers: {
         "Authorization": `Bearer ${token}`,
         "Content-Type": "application/json",
         "User-Agent": "ai-subscription-monitor/0.1",
         "anthropic-beta": "oauth-2025-04-20"
-      },
-      timeout: 10000
-    });
+      }
+    }, settings);
+    if (!resp.data || typeof resp.data !== 'object' || !('five_hour' in resp.data || 'seven_day' in resp.data)) {
+      return { data: null, isAuthError: false, cause: new ProviderError('unexpected_response', 'Usage response has no five_hour or seven_day window') };
+    }
     return { data: resp.data, isAuthError: false };
   } catch (e: any) {
-    if (e.response?.status === 401) {
-      return { data: null, isAuthError: true };
-    }
-    return { data: null, isAuthError: false };
+    return { data: null, isAuthError: e.response?.status === 401, cause: e };
   }
 }
 
-async function fetchProfile(token: string): Promise<{ email: string | null; plan: string | null }> {
+interface ClaudeProfile {
+  email: string | null;
+  organization: string | null;
+  organizationType: string | null;
+  rateLimitTier: string | null;
+}
+
+async function fetchProfile(settings: ProviderSettings, token: string): Promise<ClaudeProfile> {
   try {
-    const resp = await axios.get("https://api.anthropic.com/api/oauth/profile", {
+    const resp = await httpRequest({
+      url: `${baseUrl(settings.base_url, ANTHROPIC_API_BASE)}/api/oauth/profile`,
       headers: {
         "Authorization": `Bearer ${token}`,
         "Content-Type": "application/json",
         "User-Agent": "ai-subscription-monitor/0.1",
         "anthropic-beta": "oauth-2025-04-20"
-      },
-      timeout: 10000
-    });
+      }
+    }, settings);
     const account = resp.data?.account || {};
     const org = resp.data?.organization || {};
-    return { 
-      email: account.email || null, 
-      plan: org.organization_type || null 
+    return {
+      email: account.email || null,
+      organization: org.name || null,
+      organizationType: org.organization_type || null,
+      rateLimitTier: org.rate_limit_tier || null
     };
   } catch {
-    return { email: null, plan: null };
+    return { email: null, organization: null, organizationType: null, rateLimitTier: null };
   }
 }
 
-function formatUsage(data: any): string {
-  const parts: string[] = [];
-  const windows = [
-    { key: "five_hour", label: "5h Window" },
-    { key: "seven_day", label: "7d Window" }
-  ];
-
-  for (const w of windows) {
-    const entry = data[w.key];
-    if (entry && entry.utilization != null) {
-      const util = entry.utilization;
-      const resets = entry.resets_at;
-      let resetStr = "";
-      if (resets) {
-        try {
-          const dt = new Date(resets);
-          // format: MM-dd HH:mm UTC+8 (using local time)
-          const m = (dt.getMonth() + 1).toString().padStart(2, '0');
-          const d = dt.getDate().toString().padStart(2, '0');
-          const h = dt.getHours().toString().padStart(2, '0');
-          const min = dt.getMinutes().toString().padStart(2, '0');
-          
-          // Get timezone offset string e.g. +08
-          // But user wants explicit timezone label like CST or +08
-          // Simple approach:
-          resetStr = `${m}-${d} ${h}:${min}`; 
-          
-          // Add timezone offset logic if needed, or just let user infer from local time
-          // Python used .astimezone() which defaults to local.
-          // JS new Date() is local by default.
-          // To add timezone suffix:
-          const offset = -dt.getTimezoneOffset() / 60;
-          const sign = offset >= 0 ? '+' : '-';
-          resetStr += ` ${sign}${Math.abs(offset).toString().padStart(2, '0')}`;
-        } catch {
-          resetStr = resets.substring(0, 16);
-        }
-      }
-      const suffix = resetStr ? `  Reset: ${resetStr}` : "";
-      parts.push(`${w.label}: ${util.toFixed(0)}%${suffix}`);
-    }
+const WINDOW_PERIODS: Record<string, { id: string; label: string; seconds: number }> = {
+  five_hour: { id: "5h", label: "5h", seconds: 5 * 3600 },
+  seven_day: { id: "7d", label: "7d", seconds: 7 * 86400 }
+};
+
+// "oauth_apps" -> "OAuth Apps", "opus" -> "Opus"
+function titleCase(words: string): string {
+  return words
+    .split('_')
+    .map(word => word === 'oauth' ? 'OAuth' : word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Every `{ utilization, resets_at }` object in the response becomes a window:
+ * five_hour -> "5h Window", seven_day_opus -> "7d Opus" (id "7d_opus"), and
+ * unknown keys keep their name so new limits show up without a release
+ */
+function formatUsage(data: any): UsageWindow[] {
+  const windows: UsageWindow[] = [];
+
+  for (const [key, entry] of Object.entries<any>(data)) {
+    if (key === 'extra_usage' || !entry || typeof entry !== 'object' || typeof entry.utilization !== 'number') continue;
+
+    const periodKey = Object.keys(WINDOW_PERIODS).find(p => key === p || key.startsWith(`${p}_`));
+    const period = periodKey ? WINDOW_PERIODS[periodKey] : undefined;
+    const suffix = periodKey ? key.slice(periodKey.length + 1) : key;
+    windows.push({
+      id: period ? (suffix ? `${period.id}_${suffix}` : period.id) : key,
+      label: period ? `${period.label} ${suffix ? titleCase(suffix) : 'Window'}` : titleCase(key),
+      used_fraction: entry.utilization / 100,
+      resets_at: entry.resets_at || undefined,
+      window_seconds: period?.seconds
+    });
   }
-  return parts.join("\n");
+
+  // Extra usage is billed in cents against a monthly limit
+  const extra = data.extra_usage;
+  if (extra?.is_enabled && typeof extra.monthly_limit === 'number' && extra.monthly_limit > 0) {
+    const used = (Number(extra.used_credits) || 0) / 100;
+    const limit = extra.monthly_limit / 100;
+    windows.push({
+      id: "extra_usage",
+      label: "Extra Usage",
+      used_fraction: typeof extra.utilization === 'number' ? extra.utilization / 100 : used / limit,
+      used: Math.round(used * 100) / 100,
+      limit,
+      unit: 'usd'
+    });
+  }
+  return windows;
+}
+
+const PLAN_NAMES: Record<string, string> = {
+  "pro": "Claude Pro",
+  "max": "Claude Max",
+  "free": "Claude Free",
+  "team": "Claude Team",
+  "enterprise": "Claude Enterprise"
+};
+
+/**
+ * Plan from the stored subscription type, falling back to the profile's
+ * organization type ("claude_max"); Max tiers come from the rate limit tier,
+ * e.g. "default_claude_max_20x" -> "Claude Max 20x"
+ */
+function planName(subscriptionType?: string | null, rateLimitTier?: string | null, organizationType?: string | null): string {
+  const type = subscriptionType || organizationType?.replace(/^claude_/, '') || "unknown";
+  const name = PLAN_NAMES[type] || type;
+  const multiplier = rateLimitTier?.match(/max_(\d+)x/)?.[1];
+  return type === 'max' && multiplier ? `${name} ${multiplier}x` : name;
+}
+
+// Personal accounts sit in an organization named after the user; only shared ones are worth showing
+function organizationNote(profile: ClaudeProfile): string[] {
+  return profile.organization && /team|enterprise/i.test(profile.organizationType || '')
+    ? [`Organization: ${profile.organization}`]
+    : [];
 }
 
 export class AnthropicProvider extends ProviderBase {
   name = "Claude (Anthropic)";
   dashboard_url = ANTHROPIC_DASHBOARD;
   cli_name = "claude";
+  login_command = "claude";
+  install_command = "npm install -g @anthropic-ai/claude-code";
 
   async fetch(): Promise<SubscriptionInfo> {
-    let error: string | undefined;
-    let usage = "";
+    let failure: Partial<SubscriptionInfo> = {};
+    let windows: UsageWindow[] = [];
     let statusLine = "";
+    let plan: string | undefined;
+    let account: string | undefined;
+    let notes: string[] = [];
 
-    let creds = await readClaudeCredentials();
+    let creds = await readClaudeCredentials(this.settings);
+
+    // Refresh proactively instead of waiting for a 401
+    if (creds?.refreshToken && creds.expiresAt && creds.expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      creds = (await refreshClaudeToken(this.settings, creds)) || creds;
+    }
     
     if (creds) {
       // Fetch profile to get email and plan
-      const profile = await fetchProfile(creds.accessToken);
-      const subType = creds.subscriptionType || "unknown";
-      const subMap: Record<string, string> = {
-        "pro": "Claude Pro",
-        "free": "Claude Free",
-        "team": "Claude Team"
-      };
-      const planName = subMap[subType] || subType;
+      const profile = await fetchProfile(this.settings, creds.accessToken);
+      plan = planName(creds.subscriptionType, creds.rateLimitTier || profile.rateLimitTier, profile.organizationType);
+      account = profile.email || undefined;
+      notes = organizationNote(profile);
+      statusLine = account ? `Logged in (${account})` : "Logged in";
       
-      if (profile.email) {
-        statusLine = `Logged in (${profile.email} - ${planName})`;
-      } else {
-        statusLine = `Logged in (${planName})`;
-      }
-      
-      const result = await fetchUsage(creds.accessToken);
+      const result = await fetchUsage(this.settings, creds.accessToken);
       
       if (result.data) {
-        usage = formatUsage(result.data);
+        windows = formatUsage(result.data);
       } else if (result.isAuthError && creds.refreshToken) {
-        // 自动登录流程
-        console.log(`[${this.name}] Token 失效，尝试自动登录...`);
-        const loginSuccess = await this.autoLogin();
-        if (loginSuccess) {
-          // 登录成功后重新读取凭证并获取数据
-          const newCreds = await readClaudeCredentials(true);
-          if (newCreds?.accessToken) {
-            const retryResult = await fetchUsage(newCreds.accessToken);
-            if (retryResult.data) {
-              usage = formatUsage(retryResult.data);
-              error = undefined;
+        const renewed = await refreshClaudeToken(this.settings, creds);
+        const renewedResult = renewed ? await fetchUsage(this.settings, renewed.accessToken) : null;
+        if (renewedResult?.data) {
+          windows = formatUsage(renewedResult.data);
+        } else {
+          // 刷新失败，回退到自动登录流程
+          console.log(`[${this.name}] Token 失效，尝试自动登录...`);
+          const loginSuccess = await this.tryAutoLogin();
+          let refreshed = false;
+          if (loginSuccess) {
+            // 登录成功后重新读取凭证并获取数据
+            const newCreds = await readClaudeCredentials(this.settings, true);
+            if (newCreds?.accessToken) {
+              const retryResult = await fetchUsage(this.settings, newCreds.accessToken);
+              if (retryResult.data) {
+                windows = formatUsage(retryResult.data);
+                refreshed = true;
+              }
             }
           }
-        }
-        if (!usage) {
-          if (loginSuccess) {
-            error = "Token expired. Login flow started in background; complete it and wait next refresh.";
-          } else {
-            error = "Token expired, auto-login failed";
+          if (!refreshed) {
+            if (loginSuccess) {
+              failure = this.expired("Token expired. Login flow started in background; complete it and wait next refresh.");
+            } else {
+              failure = this.expired("Token expired, auto-login failed");
+            }
           }
         }
       } else {
-        error = "Failed to fetch usage";
+        failure = this.fail(result.cause);
       }
     } else {
       // 未检测到登录，尝试自动登录
       console.log(`[${this.name}] 未检测到登录凭证，尝试自动登录...`);
-      const loginSuccess = await this.autoLogin();
+      const loginSuccess = await this.tryAutoLogin();
+      let fetched = false;
       if (loginSuccess) {
-        const newCreds = await readClaudeCredentials(true);
+        const newCreds = await readClaudeCredentials(this.settings, true);
         if (newCreds?.accessToken) {
-          const retryResult = await fetchUsage(newCreds.accessToken);
+          const retryResult = await fetchUsage(this.settings, newCreds.accessToken);
           if (retryResult.data) {
-            usage = formatUsage(retryResult.data);
+            windows = formatUsage(retryResult.data);
+            fetched = true;
             // 获取 profile 信息
-            const profile = await fetchProfile(newCreds.accessToken);
-            const subType = newCreds.subscriptionType || "unknown";
-            const subMap: Record<string, string> = {
-              "pro": "Claude Pro",
-              "free": "Claude Free",
-              "team": "Claude Team"
-            };
-            const planName = subMap[subType] || subType;
-            
-            if (profile.email) {
-              statusLine = `Logged in (${profile.email} - ${planName})`;
-            } else {
-              statusLine = `Logged in (${planName})`;
-            }
+            const profile = await fetchProfile(this.settings, newCreds.accessToken);
+            plan = planName(newCreds.subscriptionType, newCreds.rateLimitTier || profile.rateLimitTier, profile.organizationType);
+            account = profile.email || undefined;
+            notes = organizationNote(profile);
+            statusLine = account ? `Logged in (${account})` : "Logged in";
           }
         }
       }
-      if (!usage) {
+      if (!fetched) {
         if (loginSuccess) {
           statusLine = "Login flow started in background";
         } else {
           statusLine = "Claude login not detected";
+          failure = await this.missingLogin();
         }
       }
     }
 
-    if (!usage) {
-      usage = this.manual.usage_text || "";
-    }
-
-    const fullUsage = usage ? `${statusLine}\n${usage}` : statusLine;
-
     return {
       name: this.name,
-      usage_text: fullUsage.trim() || "—",
+      status: statusLine,
+      plan,
+      account,
+      windows,
+      notes: windows.length > 0 ? notes : [...notes, ...this.manualNotes()],
       reset_time: "",
       limit_note: this.manual.limit_note || "Pro: 5h/7d sliding window limit",
       dashboard_url: this.dashboard_url,
-      error
+      ...failure
     };
   }
 
+  endpoints(): string[] {
+    return [baseUrl(this.settings.base_url, ANTHROPIC_API_BASE), new URL(OAUTH_TOKEN_URL).origin];
+  }
+
+  async diagnose(): Promise<DiagnosticCheck[]> {
+    const checks: DiagnosticCheck[] = [];
+    const query = credentialsQuery(this.settings);
+    let found = false;
+    for (const source of credentialSources(this.settings)) {
+      const value = await lookupSecret(source, query);
+      found = found || !!value;
+      checks.push(value
+        ? { level: 'ok', label: 'Credentials', detail: describeSecretSource(source, query) }
+        : { level: 'info', label: 'Credentials', detail: `${describeSecretSource(source, query)} not found` });
+    }
+    if (!found) {
+      checks.push({ level: 'fail', label: 'Credentials', detail: `none found; run '${this.login_command}' and log in` });
+      return checks;
+    }
+
+    const creds = await readClaudeCredentials(this.settings);
+    if (!creds) {
+      checks.push({ level: 'fail', label: 'Credentials', detail: 'found, but without claudeAiOauth.accessToken' });
+      return checks;
+    }
+    checks.push(this.expiryCheck('Access token', creds.expiresAt));
+    checks.push(creds.refreshToken
+      ? { level: 'ok', label: 'Refresh token', detail: 'present (expired tokens are renewed automatically)' }
+      : { level: 'warn', label: 'Refresh token', detail: 'missing; expired tokens need a new login' });
+    if (creds.subscriptionType) {
+      checks.push({ level: 'ok', label: 'Plan', detail: planName(creds.subscriptionType, creds.rateLimitTier) });
+    }
+    return checks;
+  }
+
   async autoLogin(): Promise<boolean> {
-    if (Date.now() - lastLoginLaunchAt < LOGIN_COOLDOWN_MS) {
+    const query = credentialsQuery(this.settings);
+    const account = `${query.service}:${query.file}`;
+    if (Date.now() - (lastLoginLaunchAt.get(account) || 0) < LOGIN_COOLDOWN_MS) {
       console.log(`[${this.name}] 登录流程已在后台启动，等待完成`);
       return true;
     }
@@ -246,7 +419,7 @@ export class AnthropicProvider extends ProviderBase {
     try {
       const started = runDetachedCommand('claude');
       if (started) {
-        lastLoginLaunchAt = Date.now();
+        lastLoginLaunchAt.set(account, Date.now());
         console.log(`[${this.name}] 已在后台打开登录窗口`);
         return true;
       }
@@ -1,23 +1,123 @@
-import { ManualConfig } from '../config.js';
+import { ManualConfig, ProviderSettings } from '../config.js';
+import { ErrorKind, ProviderError, classifyError, defaultHint, errorFields } from '../errors.js';
+import { commandExists } from '../cli_runner.js';
+import { formatLocalTime, formatDuration } from '../utils.js';
+
+export interface UsageProjection {
+  /** Fraction of the window consumed per hour at the recent pace */
+  rate_per_hour: number;
+  /** When the window hits 100% at that pace, null if usage isn't growing */
+  exhausts_at: string | null;
+  exhausts_before_reset: boolean;
+}
+
+export interface UsageWindow {
+  /** Stable identifier within the provider, e.g. "5h", "primary" or a model id */
+  id: string;
+  label: string;
+  /** Fraction of the window already consumed, 0..1 */
+  used_fraction: number;
+  used?: number;
+  limit?: number;
+  /** Unit of used/limit: "usd" for spend, counts when unset */
+  unit?: 'usd';
+  /** ISO 8601 timestamp of the next reset */
+  resets_at?: string;
+  window_seconds?: number;
+  /** The provider reports this limit as hit, whatever used_fraction says */
+  limit_reached?: boolean;
+  projection?: UsageProjection;
+}
+
+/**
+ * Requests, spend and tokens for one model over the current billing cycle
+ */
+export interface ModelUsage {
+  model: string;
+  requests: number;
+  cost_usd?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_tokens?: number;
+  cache_write_tokens?: number;
+}
+
+export interface TeamMemberUsage {
+  name: string;
+  email?: string;
+  requests: number;
+  spend_usd: number;
+  limit_usd?: number;
+  /** At 80% or more of their spend limit or request quota */
+  near_limit: boolean;
+}
+
+/**
+ * Team-wide usage, only available to team admins
+ */
+export interface TeamUsage {
+  name: string;
+  role: string;
+  spend_usd: number;
+  limit_usd?: number;
+  /** Near-limit members first, then by spend */
+  members: TeamMemberUsage[];
+}
+
+export interface CreditBalance {
+  /** Whether the account can use purchased credits at all */
+  available: boolean;
+  unlimited?: boolean;
+  balance?: number;
+}
 
 export interface SubscriptionInfo {
   name: string;
-  usage_text: string;
+  status: string;
+  plan?: string;
+  account?: string;
+  windows: UsageWindow[];
+  /** Free-form lines that don't fit a window (manual text, extra quota, ...) */
+  notes: string[];
+  /** Per-model usage, most expensive first */
+  breakdown?: ModelUsage[];
+  team?: TeamUsage;
+  credits?: CreditBalance;
   reset_time: string;
   limit_note: string;
   dashboard_url: string;
   error?: string;
+  /** Category of `error`; also set without `error` for "not logged in" / "CLI missing" */
+  error_kind?: ErrorKind;
+  /** Suggested fix for error_kind */
+  hint?: string;
+}
+
+export type CheckLevel = 'ok' | 'warn' | 'fail' | 'info';
+
+/**
+ * One line of the `ai-sub doctor` report
+ */
+export interface DiagnosticCheck {
+  level: CheckLevel;
+  label: string;
+  detail: string;
 }
 
 export abstract class ProviderBase {
   abstract name: string;
   abstract dashboard_url: string;
   abstract cli_name: string;
-  
+  /** Shown in hints when credentials are missing or expired */
+  login_command = "";
+  install_command = "";
+
   protected manual: ManualConfig;
+  protected settings: ProviderSettings;
 
-  constructor(manual: ManualConfig) {
+  constructor(manual: ManualConfig, settings: ProviderSettings = {}) {
     this.manual = manual || {};
+    this.settings = settings || {};
   }
 
   abstract fetch(): Promise<SubscriptionInfo>;
@@ -27,4 +127,66 @@ export abstract class ProviderBase {
    * @returns Promise<boolean> - true if login succeeded, false otherwise
    */
   abstract autoLogin(): Promise<boolean>;
+
+  /**
+   * autoLogin() unless disabled via the auto_login setting or the CLI is missing
+   */
+  protected async tryAutoLogin(): Promise<boolean> {
+    if (this.settings.auto_login === false) return false;
+    // Login flows run the provider's CLI; without it they can only fail
+    if (this.cli_name && !(await commandExists(this.cli_name))) return false;
+    return await this.autoLogin();
+  }
+
+  protected fail(e: unknown): { error: string; error_kind: ErrorKind; hint?: string } {
+    return errorFields(classifyError(e, { loginCommand: this.login_command, installCommand: this.install_command }));
+  }
+
+  protected expired(message: string): { error: string; error_kind: ErrorKind; hint?: string } {
+    return this.fail(new ProviderError('token_expired', message));
+  }
+
+  /**
+   * Hint for a provider without credentials: install the CLI first if it is
+   * missing, otherwise log in
+   */
+  protected async missingLogin(): Promise<{ error_kind: ErrorKind; hint?: string }> {
+    const ctx = { loginCommand: this.login_command, installCommand: this.install_command };
+    const kind: ErrorKind = this.cli_name && !(await commandExists(this.cli_name)) ? 'cli_missing' : 'not_logged_in';
+    return { error_kind: kind, hint: defaultHint(kind, ctx) };
+  }
+
+  /**
+   * API base URLs probed for reachability by `ai-sub doctor`
+   */
+  endpoints(): string[] {
+    return [];
+  }
+
+  /**
+   * Provider specific prerequisites for `ai-sub doctor`: credential locations,
+   * token expiry, required environment variables
+   */
+  async diagnose(): Promise<DiagnosticCheck[]> {
+    return [];
+  }
+
+  protected expiryCheck(label: string, expiresAt: number | null | undefined): DiagnosticCheck {
+    if (!expiresAt) return { level: 'info', label, detail: 'no expiry recorded' };
+    const remaining = expiresAt - Date.now();
+    if (remaining <= 0) {
+      return { level: 'warn', label, detail: `expired ${formatLocalTime(expiresAt)} (${formatDuration(-remaining)} ago)` };
+    }
+    return { level: 'ok', label, detail: `valid until ${formatLocalTime(expiresAt)} (${formatDuration(remaining)})` };
+  }
+
+  /**
+   * Manual usage_text from config, split into note lines
+   */
+  protected manualNotes(): string[] {
+    return (this.manual.usage_text || '')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+  }
 }
@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ProviderBase, SubscriptionInfo, UsageWindow, DiagnosticCheck } from './base.js';
+import { ProviderSettings } from '../config.js';
+import { execCommand } from '../utils.js';
+import { expandHome } from '../secret_store.js';
+import { commandExists } from '../cli_runner.js';
+import { httpRequest, baseUrl } from '../http.js';
+import { ProviderError } from '../errors.js';
+import { isReplaying, replayCredential, recordCredential } from '../traffic.js';
+
+const COPILOT_DASHBOARD = "https://github.com/settings/copilot";
+const GITHUB_API_BASE = "https://api.github.com";
+
+interface CopilotToken {
+  token: string;
+  /** Where the token came from, for status and diagnostics */
+  source: string;
+  user?: string;
+}
+
+function getXdgConfigHome(): string {
+  return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+}
+
+// Written by the Copilot editor plugins (VS Code, JetBrains, Neovim)
+function getCopilotConfigPaths(): string[] {
+  const dir = path.join(getXdgConfigHome(), 'github-copilot');
+  return [path.join(dir, 'apps.json'), path.join(dir, 'hosts.json')];
+}
+
+/**
+ * apps.json is keyed "github.com:<app id>", hosts.json "github.com"; both
+ * hold { user, oauth_token }
+ */
+function readTokenFile(file: string): CopilotToken | null {
+  try {
+    const p = expandHome(file);
+    if (!fs.existsSync(p)) return null;
+    const data = JSON.parse(fs.readFileSync(p, 'utf8'));
+    for (const [host, entry] of Object.entries<any>(data || {})) {
+      if (host.split(':')[0] === 'github.com' && entry?.oauth_token) {
+        return { token: entry.oauth_token, source: p, user: entry.user };
+      }
+    }
+  } catch {
+    // fall through to the next source
+  }
+  return null;
+}
+
+async function readGhToken(): Promise<CopilotToken | null> {
+  if (!(await commandExists('gh'))) return null;
+  const { stdout } = await execCommand('gh auth token --hostname github.com', 5000);
+  return stdout ? { token: stdout, source: 'gh auth token' } : null;
+}
+
+async function findCopilotToken(settings: ProviderSettings): Promise<CopilotToken | null> {
+  const files = settings.credentials_file ? [settings.credentials_file] : getCopilotConfigPaths();
+  for (const file of files) {
+    const found = readTokenFile(file);
+    if (found) return found;
+  }
+  return settings.credential_source === 'file' ? null : await readGhToken();
+}
+
+async function readCopilotToken(settings: ProviderSettings): Promise<CopilotToken | null> {
+  const key = `copilot-token:${settings.credentials_file || settings.credential_source || 'auto'}`;
+  if (isReplaying()) return replayCredential<CopilotToken>(key);
+  const found = await findCopilotToken(settings);
+  recordCredential(key, found);
+  return found;
+}
+
+async function fetchCopilotUser(settings: ProviderSettings, token: string): Promise<any> {
+  const resp = await httpRequest({
+    url: `${baseUrl(settings.base_url, GITHUB_API_BASE)}/copilot_internal/user`,
+    headers: {
+      "Authorization": `token ${token}`,
+      "Accept": "application/json",
+      "User-Agent": "ai-subscription-monitor/0.1",
+      "X-GitHub-Api-Version": "2025-04-01"
+    }
+  }, settings);
+  if (!resp.data || typeof resp.data !== 'object' || !('copilot_plan' in resp.data || 'quota_snapshots' in resp.data)) {
+    throw new ProviderError('unexpected_response', 'Copilot user response has no copilot_plan or quota_snapshots');
+  }
+  return resp.data;
+}
+
+// gh has no npm package like the other CLIs; suggest the platform's package manager
+function ghInstallCommand(): string {
+  if (process.platform === 'darwin') return 'brew install gh';
+  if (process.platform === 'win32') return 'winget install --id GitHub.cli';
+  const managers: [string, string][] = [
+    ['/usr/bin/apt', 'sudo apt install gh'],
+    ['/usr/bin/dnf', 'sudo dnf install gh'],
+    ['/usr/bin/pacman', 'sudo pacman -S github-cli'],
+    ['/usr/bin/zypper', 'sudo zypper install gh']
+  ];
+  return managers.find(([bin]) => fs.existsSync(bin))?.[1] || 'conda install gh --channel conda-forge';
+}
+
+const PLAN_NAMES: Record<string, string> = {
+  "free": "Copilot Free",
+  "individual": "Copilot Pro",
+  "individual_pro": "Copilot Pro+",
+  "business": "Copilot Business",
+  "enterprise": "Copilot Enterprise"
+};
+
+function planName(data: any): string {
+  const plan = data.copilot_plan || "unknown";
+  // The SKU tells Pro+ apart from Pro, which share copilot_plan "individual"
+  if (plan === 'individual' && /pro_?plus|pro\+/i.test(data.access_type_sku || '')) return PLAN_NAMES.individual_pro;
+  return PLAN_NAMES[plan] || plan;
+}
+
+const QUOTAS = [
+  { key: "premium_interactions", id: "premium", label: "Premium Requests" },
+  { key: "chat", id: "chat", label: "Chat" },
+  { key: "completions", id: "completions", label: "Completions" }
+];
+
+/**
+ * Paid plans report quota_snapshots; Copilot Free reports what is left in
+ * limited_user_quotas against monthly_quotas instead
+ */
+function formatCopilot(data: any): { windows: UsageWindow[]; notes: string[] } {
+  const windows: UsageWindow[] = [];
+  const notes: string[] = [];
+  const unlimited: string[] = [];
+  const resetsAt = data.quota_reset_date_utc || data.limited_user_reset_date || data.quota_reset_date || undefined;
+  const resetIso = resetsAt && !isNaN(new Date(resetsAt).getTime()) ? new Date(resetsAt).toISOString() : undefined;
+
+  for (const quota of QUOTAS) {
+    const snapshot = data.quota_snapshots?.[quota.key];
+    if (snapshot) {
+      if (snapshot.unlimited) {
+        unlimited.push(quota.label.toLowerCase());
+        continue;
+      }
+      const limit = Number(snapshot.entitlement) || 0;
+      const remaining = Number(snapshot.remaining) || 0;
+      const fraction = typeof snapshot.percent_remaining === 'number'
+        ? 1 - snapshot.percent_remaining / 100
+        : (limit > 0 ? 1 - remaining / limit : 0);
+      windows.push({
+        id: quota.id,
+        label: quota.label,
+        used_fraction: Math.max(0, fraction),
+        used: limit > 0 ? Math.max(0, limit - remaining) : undefined,
+        limit: limit > 0 ? limit : undefined,
+        resets_at: resetIso
+      });
+      if (Number(snapshot.overage_count) > 0) {
+        notes.push(`${quota.label} overage: ${snapshot.overage_count}` + (snapshot.overage_permitted ? '' : ' (not permitted)'));
+      }
+      continue;
+    }
+
+    const monthly = Number(data.monthly_quotas?.[quota.key]);
+    const left = Number(data.limited_user_quotas?.[quota.key]);
+    if (monthly > 0 && Number.isFinite(left)) {
+      const used = Math.max(0, monthly - left);
+      windows.push({ id: quota.id, label: quota.label, used_fraction: used / monthly, used, limit: monthly, resets_at: resetIso });
+    }
+  }
+
+  if (unlimited.length > 0) {
+    notes.push(`Unlimited: ${unlimited.join(', ')}`);
+  }
+  return { windows, notes };
+}
+
+export class CopilotProvider extends ProviderBase {
+  name = "GitHub Copilot";
+  dashboard_url = COPILOT_DASHBOARD;
+  cli_name = "gh";
+  login_command = "gh auth login";
+  install_command = ghInstallCommand();
+
+  async fetch(): Promise<SubscriptionInfo> {
+    let status = "Copilot login not detected";
+    let failure: Partial<SubscriptionInfo> = {};
+    let plan: string | undefined;
+    let account: string | undefined;
+    let windows: UsageWindow[] = [];
+    let notes: string[] = [];
+
+    const found = await readCopilotToken(this.settings);
+    if (found) {
+      account = found.user;
+      status = account ? `Logged in (${account})` : "Logged in";
+      try {
+        const data = await fetchCopilotUser(this.settings, found.token);
+        plan = planName(data);
+        account = data.login || account;
+        status = account ? `Logged in (${account})` : status;
+        ({ windows, notes } = formatCopilot(data));
+      } catch (e) {
+        failure = this.fail(e);
+      }
+    } else {
+      failure = await this.missingLogin();
+    }
+
+    return {
+      name: this.name,
+      status,
+      plan,
+      account,
+      windows,
+      notes: plan ? notes : this.manualNotes(),
+      reset_time: this.manual.reset_time || "",
+      limit_note: this.manual.limit_note || "",
+      dashboard_url: this.dashboard_url,
+      ...failure
+    };
+  }
+
+  endpoints(): string[] {
+    return [baseUrl(this.settings.base_url, GITHUB_API_BASE)];
+  }
+
+  async diagnose(): Promise<DiagnosticCheck[]> {
+    const checks: DiagnosticCheck[] = [];
+    const files = this.settings.credentials_file ? [expandHome(this.settings.credentials_file)] : getCopilotConfigPaths();
+    for (const file of files) {
+      const found = readTokenFile(file);
+      if (found) checks.push({ level: 'ok', label: 'Token', detail: file + (found.user ? ` (${found.user})` : '') });
+      else checks.push({ level: 'info', label: 'Token', detail: fs.existsSync(file) ? `${file} has no github.com token` : `${file} not found` });
+    }
+    if (this.settings.credential_source !== 'file') {
+      const gh = await readGhToken();
+      checks.push(gh
+        ? { level: 'ok', label: 'Token', detail: 'gh auth token' }
+        : { level: 'info', label: 'Token', detail: 'gh auth token: not logged in or gh not installed' });
+    }
+    if (!checks.some(c => c.level === 'ok')) {
+      checks.push({ level: 'fail', label: 'Token', detail: `none found; sign in to Copilot in your editor or run '${this.login_command}'` });
+    }
+    return checks;
+  }
+
+  async autoLogin(): Promise<boolean> {
+    // GitHub 使用浏览器 OAuth 登录，不支持命令行自动登录
+    console.log(`[${this.name}] 请手动运行 'gh auth login' 命令登录，或在编辑器中登录 Copilot`);
+    return false;
+  }
+}
@@ -1,46 +1,323 @@
-import axios from 'axios';
+import path from 'path';
+import os from 'os';
 import { getCliStatus } from '../cli_runner.js';
-import { ProviderBase, SubscriptionInfo } from './base.js';
-import { getKeychainPassword } from '../keychain_cache.js';
+import { ProviderBase, SubscriptionInfo, UsageWindow, DiagnosticCheck, ModelUsage, TeamUsage, TeamMemberUsage } from './base.js';
+import { ProviderSettings } from '../config.js';
+import { formatLocalTime, parseJwt } from '../utils.js';
+import { lookupSecret, describeSecretSource, SecretQuery, SecretSource } from '../secret_store.js';
+import { httpRequest, baseUrl } from '../http.js';
+import { ProviderError, classifyError } from '../errors.js';
 
 const CURSOR_DASHBOARD = "https://cursor.com/settings";
+const CURSOR_API_BASE = "https://api2.cursor.sh";
+const KEYCHAIN_SERVICE = 'cursor-access-token';
+const STATE_DB_KEY = 'cursorAuth/accessToken';
+const EVENTS_PAGE_SIZE = 100;
+// Heavy users log thousands of events per cycle; stop after this many pages per refresh
+const MAX_EVENT_PAGES = 20;
+const NEAR_LIMIT = 0.8;
 
-async function readCursorToken(): Promise<string | null> {
-  return await getKeychainPassword('cursor-access-token');
+interface CursorToken {
+  token: string;
+  source: SecretSource;
+  expiresAt: number | null;
 }
 
-async function cursorApi(token: string, method: string) {
+function getXdgConfigHome(): string {
+  return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+}
+
+function getStateDbPath(): string {
+  const suffix = path.join('Cursor', 'User', 'globalStorage', 'state.vscdb');
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Application Support', suffix);
+  }
+  if (process.platform === 'win32' && process.env.APPDATA) {
+    return path.join(process.env.APPDATA, suffix);
+  }
+  return path.join(getXdgConfigHome(), suffix);
+}
+
+// cursor-agent keeps its login next to its CLI config
+function getAgentAuthPaths(): string[] {
+  return [
+    path.join(getXdgConfigHome(), 'cursor', 'auth.json'),
+    path.join(os.homedir(), '.cursor', 'auth.json')
+  ];
+}
+
+function tokenQueries(settings: ProviderSettings): { source: SecretSource; query: SecretQuery }[] {
+  const service = settings.keychain_service || KEYCHAIN_SERVICE;
+  const keychain = { source: 'keychain' as const, query: { service } };
+  const secretService = { source: 'secret-service' as const, query: { service } };
+  const stateDb = {
+    source: 'state-db' as const,
+    query: { service, db: settings.state_db || getStateDbPath(), dbKey: STATE_DB_KEY }
+  };
+  const files = (settings.credentials_file ? [settings.credentials_file] : getAgentAuthPaths())
+    .map(file => ({ source: 'file' as const, query: { service, file } }));
+
+  switch (settings.credential_source || 'auto') {
+    case 'keychain': return [keychain];
+    case 'secret-service': return [secretService];
+    case 'file': return files;
+    case 'state-db': return [stateDb];
+    default:
+      return process.platform === 'darwin'
+        ? [keychain, ...files, stateDb]
+        : [...files, stateDb];
+  }
+}
+
+// auth.json holds { accessToken, ... }; the keychain and state db hold the bare token
+function extractToken(raw: string): string | null {
+  const value = raw.trim();
+  if (value.startsWith('{')) {
+    try {
+      const data = JSON.parse(value);
+      return data.accessToken || data.access_token || null;
+    } catch {
+      return null;
+    }
+  }
+  return value.replace(/^"|"$/g, '') || null;
+}
+
+function tokenExpiry(token: string): number | null {
+  const payload = parseJwt(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+}
+
+/**
+ * First unexpired token across all sources; an expired one is returned only
+ * when nothing better exists so the caller can report it
+ */
+async function readCursorToken(settings: ProviderSettings): Promise<CursorToken | null> {
+  let expired: CursorToken | null = null;
+  for (const { source, query } of tokenQueries(settings)) {
+    const raw = await lookupSecret(source, query);
+    const token = raw ? extractToken(raw) : null;
+    if (!token) continue;
+
+    const expiresAt = tokenExpiry(token);
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      expired = expired || { token, source, expiresAt };
+      continue;
+    }
+    return { token, source, expiresAt };
+  }
+  return expired;
+}
+
+async function cursorApi(settings: ProviderSettings, token: string, method: string, body: object = {}): Promise<{ data: any; cause?: unknown }> {
   try {
-    const resp = await axios.post(
-      `https://api2.cursor.sh/aiserver.v1.DashboardService/${method}`,
-      {},
-      {
-        headers: {
-          "Authorization": `Bearer ${token}`,
-          "Content-Type": "application/json"
-        },
-        timeout: 10000
+    const resp = await httpRequest({
+      method: "POST",
+      url: `${baseUrl(settings.base_url, CURSOR_API_BASE)}/aiserver.v1.DashboardService/${method}`,
+      data: body,
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "application/json"
       }
-    );
-    return resp.data;
-  } catch {
-    return null;
+    }, { ...settings, idempotent: true });  // Dashboard calls only read
+    return { data: resp.data };
+  } catch (e) {
+    return { data: null, cause: e };
+  }
+}
+
+interface EventCache {
+  total: number;
+  events: any[];
+}
+
+// Per token and billing cycle, so a refresh only pages through new events
+const eventCache = new Map<string, EventCache>();
+
+function eventItems(data: any): any[] {
+  return Array.isArray(data?.usageEventsDisplay) ? data.usageEventsDisplay : [];
+}
+
+/**
+ * Usage events of the current cycle, newest first, for the per-model
+ * breakdown. Events seen on an earlier refresh come from the cache; the first
+ * page's response is returned as-is so its totals stay available even if later
+ * pages fail.
+ */
+async function fetchUsageEvents(settings: ProviderSettings, token: string, cycleStart?: string): Promise<{ data: any; events: any[]; complete: boolean; cause?: unknown }> {
+  const range = cycleStart ? { startDate: cycleStart, endDate: String(Date.now()) } : {};
+  const first = await cursorApi(settings, token, "GetFilteredUsageEvents", { ...range, page: 1, pageSize: EVENTS_PAGE_SIZE });
+  if (!first.data) return { data: null, events: [], complete: false, cause: first.cause };
+
+  const total = Number(first.data.totalUsageEventsCount) || 0;
+  const key = `${token}:${cycleStart || ''}`;
+  const cached = eventCache.get(key);
+  const usable = cached && total >= cached.total ? cached : undefined;
+  // New events lead page 1, so only the first `wanted` are needed on top of the cache
+  const wanted = usable ? total - usable.total : total;
+
+  const fresh = [...eventItems(first.data)];
+  let page = 1;
+  let lastPageSize = fresh.length;
+  while (fresh.length < wanted && lastPageSize === EVENTS_PAGE_SIZE && page < MAX_EVENT_PAGES) {
+    page++;
+    const next = await cursorApi(settings, token, "GetFilteredUsageEvents", { ...range, page, pageSize: EVENTS_PAGE_SIZE });
+    const items = eventItems(next.data);
+    fresh.push(...items);
+    lastPageSize = items.length;
+  }
+
+  // A gap between the new pages and the cache would skew the breakdown; start over from the new pages
+  const events = usable && fresh.length >= wanted ? [...fresh.slice(0, wanted), ...usable.events] : fresh;
+  eventCache.set(key, { total, events });
+  return { data: first.data, events, complete: events.length >= total };
+}
+
+// Usage-based spend in cents as Cursor bills it, which the event sum may not cover
+function billedSpendCents(periodUsage: any): number | undefined {
+  return toNumber(periodUsage?.spendLimitUsage?.individualUsed);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = typeof value === 'string' ? Number(value.replace(/[$,]/g, '')) : Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Token-based calls carry tokenUsage.totalCents; request-based ones a "$0.04" string
+function eventCostCents(event: any): number | undefined {
+  const cents = toNumber(event.tokenUsage?.totalCents) ?? toNumber(event.priceCents);
+  if (cents !== undefined) return cents;
+  const dollars = toNumber(event.usageBasedCosts);
+  return dollars !== undefined ? dollars * 100 : undefined;
+}
+
+function addTokens(usage: ModelUsage, field: 'input_tokens' | 'output_tokens' | 'cache_read_tokens' | 'cache_write_tokens', value: unknown): void {
+  const n = toNumber(value);
+  if (n !== undefined) usage[field] = (usage[field] || 0) + n;
+}
+
+/**
+ * Per-model requests, cost and tokens, most expensive first
+ */
+function summarizeEvents(events: any[]): { breakdown: ModelUsage[]; spentCents: number } {
+  const byModel = new Map<string, ModelUsage & { cents?: number }>();
+  let spentCents = 0;
+
+  for (const event of events) {
+    const model = event.model || event.modelName || 'unknown';
+    const usage: ModelUsage & { cents?: number } = byModel.get(model) || { model, requests: 0 };
+    usage.requests++;
+
+    const cents = eventCostCents(event);
+    if (cents !== undefined) {
+      usage.cents = (usage.cents || 0) + cents;
+      spentCents += cents;
+    }
+    const tokens = event.tokenUsage;
+    if (tokens) {
+      addTokens(usage, 'input_tokens', tokens.inputTokens);
+      addTokens(usage, 'output_tokens', tokens.outputTokens);
+      addTokens(usage, 'cache_read_tokens', tokens.cacheReadTokens);
+      addTokens(usage, 'cache_write_tokens', tokens.cacheWriteTokens);
+    }
+    byModel.set(model, usage);
   }
+
+  const breakdown = [...byModel.values()]
+    .map(({ cents, ...usage }) => cents !== undefined ? { ...usage, cost_usd: Math.round(cents) / 100 } : usage)
+    .sort((a, b) => (b.cost_usd || 0) - (a.cost_usd || 0) || b.requests - a.requests);
+  return { breakdown, spentCents };
+}
+
+function isTeamPlan(planInfo: any): boolean {
+  const info = planInfo?.planInfo || {};
+  return !!info.teamId || /business|team|enterprise/i.test(info.planName || '');
+}
+
+/**
+ * Team section for team admins: per-member requests and spend plus the team
+ * spending cap. Resolves to no team for plain members, who can't see the
+ * others' usage anyway.
+ */
+async function fetchTeamUsage(settings: ProviderSettings, token: string, planInfo: any, memberQuota: number): Promise<{ team?: TeamUsage; cause?: unknown }> {
+  const teams = await cursorApi(settings, token, "GetTeams");
+  if (!teams.data) return { cause: teams.cause };
+  const list: any[] = Array.isArray(teams.data.teams) ? teams.data.teams : [];
+  const teamId = planInfo?.planInfo?.teamId;
+  const team = list.find(t => teamId !== undefined && String(t.id) === String(teamId)) || list[0];
+  if (!team || !/owner|admin/i.test(team.role || '')) return {};
+
+  const [spendResponse, capResponse] = await Promise.all([
+    cursorApi(settings, token, "GetTeamSpend", { teamId: team.id }),
+    cursorApi(settings, token, "GetHardLimit", { teamId: team.id })
+  ]);
+  if (!spendResponse.data) return { cause: spendResponse.cause };
+
+  const rows: any[] = Array.isArray(spendResponse.data.teamMemberSpend) ? spendResponse.data.teamMemberSpend : [];
+  const members: TeamMemberUsage[] = rows.map(row => {
+    const requests = toNumber(row.fastPremiumRequests) ?? 0;
+    const spend = (toNumber(row.spendCents) ?? 0) / 100;
+    const limit = toNumber(row.hardLimitOverrideDollars) || undefined;
+    const nearLimit = (limit !== undefined && spend / limit >= NEAR_LIMIT)
+      || (memberQuota > 0 && requests / memberQuota >= NEAR_LIMIT);
+    return {
+      name: row.name || row.email || `user ${row.userId ?? '?'}`,
+      email: row.email || undefined,
+      requests,
+      spend_usd: Math.round(spend * 100) / 100,
+      limit_usd: limit,
+      near_limit: nearLimit
+    };
+  });
+  members.sort((a, b) => Number(b.near_limit) - Number(a.near_limit) || b.spend_usd - a.spend_usd);
+
+  const spent = members.reduce((sum, m) => sum + m.spend_usd, 0);
+  return {
+    team: {
+      name: team.name || `Team ${team.id}`,
+      role: String(team.role).replace(/^TEAM_ROLE_/, '').toLowerCase(),
+      spend_usd: Math.round(spent * 100) / 100,
+      limit_usd: toNumber(capResponse.data?.hardLimit) || undefined,
+      members
+    }
+  };
 }
 
-async function formatCursor(token: string) {
-  const [fast, planInfo, events, hardLimit] = await Promise.all([
-    cursorApi(token, "GetFastRequests"),
-    cursorApi(token, "GetPlanInfo"),
-    cursorApi(token, "GetFilteredUsageEvents"),
-    cursorApi(token, "GetHardLimit")
+async function formatCursor(settings: ProviderSettings, token: string) {
+  // Plan info first: its billing cycle scopes the usage events
+  const planResponse = await cursorApi(settings, token, "GetPlanInfo");
+  const planInfo = planResponse.data;
+  const cycleStart = planInfo?.planInfo?.billingCycleStart ? String(planInfo.planInfo.billingCycleStart) : undefined;
+
+  const [fastResponse, usage, hardLimitResponse, periodResponse] = await Promise.all([
+    cursorApi(settings, token, "GetFastRequests"),
+    fetchUsageEvents(settings, token, cycleStart),
+    cursorApi(settings, token, "GetHardLimit"),
+    cursorApi(settings, token, "GetCurrentPeriodUsage")
   ]);
+  const fast = fastResponse.data;
+  const teamResult = settings.team !== false && isTeamPlan(planInfo)
+    ? await fetchTeamUsage(settings, token, planInfo, fast?.requestQuota || 0)
+    : {};
+  const events = usage.data;
+  const hardLimit = hardLimitResponse.data;
 
-  const parts: string[] = [];
-  let error: string | undefined;
+  const windows: UsageWindow[] = [];
+  const notes: string[] = [];
+  let plan: string | undefined;
+  let cause: unknown;
 
   if (planInfo?.planInfo) {
-    parts.push(`Plan: ${planInfo.planInfo.planName || '?'}`);
+    plan = planInfo.planInfo.planName || '?';
+  }
+
+  let resetsAt: string | undefined;
+  if (planInfo?.planInfo?.billingCycleEnd) {
+    const dt = new Date(Number(planInfo.planInfo.billingCycleEnd));
+    if (!isNaN(dt.getTime())) {
+      resetsAt = dt.toISOString();
+    }
   }
 
   const quota = fast?.requestQuota || 0;
@@ -50,82 +327,149 @@ async function formatCursor(token: string) {
   }
 
   if (quota > 0) {
-    const pct = (used / quota) * 100;
-    parts.push(`Fast Requests: ${pct.toFixed(0)}%  (${used}/${quota})`);
+    windows.push({
+      id: "fast_requests",
+      label: "Fast Requests",
+      used_fraction: used / quota,
+      used,
+      limit: quota,
+      resets_at: resetsAt
+    });
   } else if (used > 0) {
-    parts.push(`Used Requests: ${used}`);
+    notes.push(`Used Requests: ${used}`);
   }
 
-  if (hardLimit && hardLimit.hardLimit) {
-    parts.push(`Extra Quota: $${hardLimit.hardLimit}`);
+  const { breakdown, spentCents } = summarizeEvents(usage.events);
+  const billedCents = billedSpendCents(periodResponse.data);
+  // Without Cursor's own total, a truncated event list only gives a lower bound
+  const partial = billedCents === undefined && !usage.complete;
+  const spent = Math.round(billedCents ?? spentCents) / 100;
+  const limit = toNumber(hardLimit?.hardLimit) || 0;
+  if (limit > 0 && !partial) {
+    windows.push({
+      id: "spend",
+      label: "Usage Spend",
+      used_fraction: spent / limit,
+      used: spent,
+      limit,
+      unit: 'usd',
+      resets_at: resetsAt
+    });
+  } else if (partial && spent > 0) {
+    notes.push(`Spend this cycle: at least $${spent.toFixed(2)}` + (limit > 0 ? ` of $${limit.toFixed(2)}` : '') + ' (partial)');
+  } else if (spent > 0) {
+    notes.push(`Spend this cycle: $${spent.toFixed(2)}`);
   }
-
-  let resetTime = "";
-  if (planInfo?.planInfo?.billingCycleEnd) {
-    try {
-      const ts = Number(planInfo.planInfo.billingCycleEnd);
-      const dt = new Date(ts);
-      // Format: YYYY-MM-dd UTC+8
-      const y = dt.getFullYear();
-      const m = (dt.getMonth() + 1).toString().padStart(2, '0');
-      const d = dt.getDate().toString().padStart(2, '0');
-      
-      const offset = -dt.getTimezoneOffset() / 60;
-      const sign = offset >= 0 ? '+' : '-';
-      const zone = `${sign}${Math.abs(offset).toString().padStart(2, '0')}`;
-      
-      resetTime = `Cycle ends: ${y}-${m}-${d} ${zone}`;
-    } catch {
-      // ignore
-    }
+  const team = teamResult.team;
+  if (team?.limit_usd) {
+    windows.push({
+      id: "team_spend",
+      label: "Team Spend",
+      used_fraction: team.spend_usd / team.limit_usd,
+      used: team.spend_usd,
+      limit: team.limit_usd,
+      unit: 'usd',
+      resets_at: resetsAt
+    });
+  }
+  if (teamResult.cause) {
+    // The personal view stays useful when only the team endpoints fail
+    notes.push(`Team usage unavailable (${classifyError(teamResult.cause).message})`);
+  }
+  if (!usage.complete && usage.events.length > 0) {
+    notes.push(`Breakdown covers ${usage.events.length} of ${used} events`);
   }
 
-  if (parts.length === 0) {
-    error = "Failed to fetch usage";
+  if (!plan && windows.length === 0 && notes.length === 0) {
+    cause = [planResponse, fastResponse, usage, hardLimitResponse].find(r => r.cause)?.cause
+      || new ProviderError('unexpected_response', 'Dashboard responses contain no plan or usage');
   }
 
-  return { usage: parts.join("\n"), resetTime, error };
+  return { plan, windows, notes, breakdown, team, resetsAt, cause };
 }
 
 export class CursorProvider extends ProviderBase {
   name = "Cursor";
   dashboard_url = CURSOR_DASHBOARD;
   cli_name = "cursor-agent";
+  login_command = "cursor-agent login";
+  install_command = "curl https://cursor.com/install -fsS | bash";
 
   async fetch(): Promise<SubscriptionInfo> {
     const status = await getCliStatus(this.cli_name);
-    let error: string | undefined;
-    let usage = "";
+    let failure: Partial<SubscriptionInfo> = {};
+    let plan: string | undefined;
+    let windows: UsageWindow[] = [];
+    let notes: string[] = [];
+    let breakdown: ModelUsage[] = [];
+    let team: TeamUsage | undefined;
     let resetTime = "";
 
-    const token = await readCursorToken();
-    if (token) {
-      const res = await formatCursor(token);
-      usage = res.usage;
-      resetTime = res.resetTime;
-      error = res.error;
+    const found = await readCursorToken(this.settings);
+    if (found && found.expiresAt !== null && found.expiresAt <= Date.now()) {
+      failure = this.expired(`Token expired ${formatLocalTime(found.expiresAt)} (${found.source}). Run 'cursor-agent login' or reopen Cursor.`);
+    } else if (found) {
+      const res = await formatCursor(this.settings, found.token);
+      plan = res.plan;
+      windows = res.windows;
+      notes = res.notes;
+      breakdown = res.breakdown;
+      team = res.team;
+      if (res.resetsAt && windows.length === 0) {
+        resetTime = `Cycle ends: ${formatLocalTime(res.resetsAt, 'ymd')}`;
+      }
+      if (res.cause) failure = this.fail(res.cause);
+    } else {
+      failure = await this.missingLogin();
     }
 
-    if (!usage) {
-      usage = this.manual.usage_text || "";
+    if (!plan && windows.length === 0 && notes.length === 0) {
+      notes = this.manualNotes();
     }
-    if (!resetTime) {
+    if (!resetTime && windows.length === 0) {
       resetTime = this.manual.reset_time || "Monthly subscription date";
     }
 
-    const statusLine = status || "Cursor-agent login not detected";
-    const fullUsage = usage ? `${statusLine}\n${usage}` : statusLine;
-
     return {
       name: this.name,
-      usage_text: fullUsage.trim() || "—",
+      status: status || "Cursor-agent login not detected",
+      plan,
+      windows,
+      notes,
+      breakdown: breakdown.length > 0 ? breakdown : undefined,
+      team,
       reset_time: resetTime,
       limit_note: this.manual.limit_note || "",
       dashboard_url: this.dashboard_url,
-      error
+      ...failure
     };
   }
 
+  endpoints(): string[] {
+    return [baseUrl(this.settings.base_url, CURSOR_API_BASE)];
+  }
+
+  async diagnose(): Promise<DiagnosticCheck[]> {
+    const checks: DiagnosticCheck[] = [];
+    let found = false;
+    for (const { source, query } of tokenQueries(this.settings)) {
+      const raw = await lookupSecret(source, query);
+      const token = raw ? extractToken(raw) : null;
+      const where = describeSecretSource(source, query);
+      if (!token) {
+        checks.push({ level: 'info', label: 'Token', detail: `${where} not found` });
+        continue;
+      }
+      found = true;
+      const expiry = this.expiryCheck('Token', tokenExpiry(token));
+      checks.push({ ...expiry, detail: `${where}: ${expiry.detail}` });
+    }
+    if (!found) {
+      checks.push({ level: 'fail', label: 'Token', detail: `none found; run '${this.login_command}' or log in to Cursor` });
+    }
+    return checks;
+  }
+
   async autoLogin(): Promise<boolean> {
     // Cursor 使用浏览器 OAuth 登录，不支持命令行自动登录
     console.log(`[${this.name}] 请手动运行 'cursor-agent login' 命令登录`);
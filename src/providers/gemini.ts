@@ -1,13 +1,18 @@
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { getCliStatus } from '../cli_runner.js';
-import { ProviderBase, SubscriptionInfo } from './base.js';
-import { parseJwt, runBackgroundCommand } from '../utils.js';
+import { ProviderBase, SubscriptionInfo, UsageWindow, DiagnosticCheck } from './base.js';
+import { parseJwt, runBackgroundCommand, formatLocalTime } from '../utils.js';
+import { ProviderSettings } from '../config.js';
+import { expandHome } from '../secret_store.js';
+import { httpRequest, baseUrl } from '../http.js';
+import { ProviderError } from '../errors.js';
+import { isReplaying, replayCredential, recordCredential } from '../traffic.js';
 
 const GEMINI_DASHBOARD = "https://gemini.google.com";
 const GEMINI_API_BASE = "https://cloudcode-pa.googleapis.com";
+const GOOGLE_OAUTH_BASE = "https://oauth2.googleapis.com";
 const LOGIN_COOLDOWN_MS = 120000;
 let lastLoginLaunchAt = 0;
 
@@ -43,8 +48,22 @@ function migrateFromLegacy(): boolean {
   }
 }
 
-function readGeminiCreds(): any {
+function readGeminiCreds(settings: ProviderSettings): any {
+  const key = `gemini-creds:${settings.credentials_file || 'default'}`;
+  if (isReplaying()) return replayCredential(key);
+  const creds = readGeminiCredsFile(settings);
+  recordCredential(key, creds);
+  return creds;
+}
+
+function readGeminiCredsFile(settings: ProviderSettings): any {
   try {
+    if (settings.credentials_file) {
+      const p = expandHome(settings.credentials_file);
+      if (!fs.existsSync(p)) return null;
+      return JSON.parse(fs.readFileSync(p, 'utf8'));
+    }
+
     // Always read from the Gemini CLI's actual location first
     // This ensures we get the most up-to-date credentials
     const legacyPath = getLegacyCredsPath();
@@ -61,11 +80,13 @@ function readGeminiCreds(): any {
   }
 }
 
-function saveGeminiCreds(data: any) {
+function saveGeminiCreds(settings: ProviderSettings, data: any) {
+  // Refreshed tokens under --replay are recorded placeholders
+  if (isReplaying()) return;
   try {
-    const current = readGeminiCreds() || {};
+    const current = readGeminiCredsFile(settings) || {};
     Object.assign(current, data);
-    const p = getCredsPath();
+    const p = settings.credentials_file ? expandHome(settings.credentials_file) : getCredsPath();
     fs.mkdirSync(path.dirname(p), { recursive: true });
     fs.writeFileSync(p, JSON.stringify(current, null, 2));
   } catch {
@@ -73,118 +94,169 @@ function saveGeminiCreds(data: any) {
   }
 }
 
-async function refreshAccessToken(refreshToken: string) {
+async function refreshAccessToken(settings: ProviderSettings, refreshToken: string) {
   if (!CLIENT_ID || !CLIENT_SECRET) return null;
   try {
-    const resp = await axios.post("https://oauth2.googleapis.com/token", {
-      client_id: CLIENT_ID,
-      client_secret: CLIENT_SECRET,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token"
-    }, { timeout: 10000 });
+    const resp = await httpRequest({
+      method: "POST",
+      url: `${GOOGLE_OAUTH_BASE}/token`,
+      data: {
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        refresh_token: refreshToken,
+        grant_type: "refresh_token"
+      }
+    }, settings);
     return resp.data;
   } catch {
     return null;
   }
 }
 
-async function getProjectId(token: string): Promise<{ projectId: string | null; isAuthError: boolean }> {
+interface CodeAssistInfo {
+  projectId: string | null;
+  /** Display name of the paid tier, or the current tier */
+  tier?: string;
+  isAuthError: boolean;
+  cause?: unknown;
+}
+
+const TIER_NAMES: Record<string, string> = {
+  "free-tier": "Gemini Code Assist (free)",
+  "legacy-tier": "Gemini Code Assist (legacy)",
+  "standard-tier": "Gemini Code Assist Standard",
+  "enterprise-tier": "Gemini Code Assist Enterprise"
+};
+
+function tierName(data: any): string | undefined {
+  const tier = data?.paidTier || data?.currentTier;
+  if (!tier) return undefined;
+  return tier.name || TIER_NAMES[tier.id] || tier.id;
+}
+
+async function getProjectId(settings: ProviderSettings, token: string): Promise<CodeAssistInfo> {
   try {
-    const resp = await axios.post(
-      `${GEMINI_API_BASE}/v1internal:loadCodeAssist`,
-      { metadata: {} },
-      {
-        headers: { "Authorization": `Bearer ${token}` },
-        timeout: 10000
-      }
-    );
-    return { projectId: resp.data.cloudaicompanionProject, isAuthError: false };
+    const resp = await httpRequest({
+      method: "POST",
+      url: `${baseUrl(settings.base_url, GEMINI_API_BASE)}/v1internal:loadCodeAssist`,
+      data: { metadata: {} },
+      headers: { "Authorization": `Bearer ${token}` }
+    }, { ...settings, idempotent: true });
+    const projectId = resp.data?.cloudaicompanionProject || null;
+    const tier = tierName(resp.data);
+    if (!projectId) {
+      return { projectId, tier, isAuthError: false, cause: new ProviderError('unexpected_response', 'loadCodeAssist returned no project ID') };
+    }
+    return { projectId, tier, isAuthError: false };
   } catch (e: any) {
-    if (e.response?.status === 401) return { projectId: null, isAuthError: true };
-    return { projectId: null, isAuthError: false };
+    return { projectId: null, isAuthError: e.response?.status === 401, cause: e };
   }
 }
 
-async function getQuota(token: string, projectId: string) {
+async function getQuota(settings: ProviderSettings, token: string, projectId: string): Promise<{ buckets: any[] | null; cause?: unknown }> {
   try {
-    const resp = await axios.post(
-      `${GEMINI_API_BASE}/v1internal:retrieveUserQuota`,
-      { project: projectId },
-      {
-        headers: { "Authorization": `Bearer ${token}` },
-        timeout: 10000
-      }
-    );
-    return resp.data.buckets || [];
-  } catch {
-    return null;
+    const resp = await httpRequest({
+      method: "POST",
+      url: `${baseUrl(settings.base_url, GEMINI_API_BASE)}/v1internal:retrieveUserQuota`,
+      data: { project: projectId },
+      headers: { "Authorization": `Bearer ${token}` }
+    }, { ...settings, idempotent: true });
+    if (resp.data?.buckets !== undefined && !Array.isArray(resp.data.buckets)) {
+      return { buckets: null, cause: new ProviderError('unexpected_response', 'retrieveUserQuota returned buckets that are not a list') };
+    }
+    return { buckets: resp.data?.buckets || [] };
+  } catch (e) {
+    return { buckets: null, cause: e };
   }
 }
 
-function formatQuota(buckets: any[]): { usage: string; resetTime: string } {
-  const parts: string[] = [];
-  let earliestReset = "";
-  
-  // Sort by modelId
-  buckets.sort((a, b) => (a.modelId || "").localeCompare(b.modelId || ""));
+// "gemini-2.5-pro-preview-06-05" and "gemini-2.5-pro" share one quota family
+function modelFamily(modelId: string): string {
+  const m = modelId.match(/^(gemini-[\d.]+-(?:pro|flash-lite|flash))(?:-|$)/);
+  return m ? m[1] : modelId;
+}
+
+// gemini-2.5-flash-lite -> "2.5 Flash Lite"; the panel already says Gemini
+function familyLabel(family: string): string {
+  return family
+    .replace(/^gemini-/, '')
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
 
-  const maxLen = buckets.reduce((max, b) => Math.max(max, (b.modelId || "unknown").length), 0);
+/**
+ * One window per model family and token type, taking the most used bucket of
+ * the group and its own reset time
+ */
+function formatQuota(buckets: any[], hideUnused: boolean = false): { windows: UsageWindow[]; hidden: number; notes: string[] } {
+  const groups = new Map<string, { label: string; used: number; resetsAt?: string; resets: Map<string, string> }>();
 
   for (const b of buckets) {
-    const model = b.modelId || "unknown";
     const remainingFrac = b.remainingFraction;
-    const resetTime = b.resetTime;
+    if (remainingFrac === undefined || remainingFrac === null) continue;
 
-    if (remainingFrac !== undefined && remainingFrac !== null) {
-      const usedPct = (1 - remainingFrac) * 100;
-      const padding = " ".repeat(Math.max(0, maxLen - model.length));
-      parts.push(`${model}${padding} : ${usedPct.toFixed(1)}% Used`);
-    }
-
-    if (resetTime) {
-      if (!earliestReset || resetTime < earliestReset) {
-        earliestReset = resetTime;
-      }
+    const family = modelFamily(b.modelId || "unknown");
+    const tokenType = b.tokenType && b.tokenType !== 'REQUESTS' ? String(b.tokenType).toLowerCase() : '';
+    const id = tokenType ? `${family}:${tokenType}` : family;
+    const used = 1 - remainingFrac;
+    const current = groups.get(id);
+    if (!current || used > current.used) {
+      groups.set(id, {
+        label: tokenType ? `${familyLabel(family)} · ${tokenType.replace(/_tokens?$/, '').replace(/_/g, ' ')}` : familyLabel(family),
+        used,
+        resetsAt: b.resetTime || undefined,
+        resets: current?.resets || new Map()
+      });
     }
+    if (b.resetTime) groups.get(id)!.resets.set(b.modelId || "unknown", b.resetTime);
   }
 
-  let resetStr = "";
-  if (earliestReset) {
-      try {
-          const dt = new Date(earliestReset);
-           // Format: MM-dd HH:mm UTC+8
-          const m = (dt.getMonth() + 1).toString().padStart(2, '0');
-          const d = dt.getDate().toString().padStart(2, '0');
-          const h = dt.getHours().toString().padStart(2, '0');
-          const min = dt.getMinutes().toString().padStart(2, '0');
-          const offset = -dt.getTimezoneOffset() / 60;
-          const sign = offset >= 0 ? '+' : '-';
-          const zone = `${sign}${Math.abs(offset).toString().padStart(2, '0')}`;
-          
-          resetStr = `Reset: ${m}-${d} ${h}:${min} ${zone}`;
-      } catch {
-          resetStr = `Reset: ${earliestReset.substring(0, 16)}`;
-      }
+  const windows: UsageWindow[] = [];
+  const notes: string[] = [];
+  let hidden = 0;
+  for (const [id, group] of [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    if (hideUnused && group.used <= 0) {
+      hidden++;
+      continue;
+    }
+    windows.push({ id, label: group.label, used_fraction: group.used, resets_at: group.resetsAt });
+    // The bar shows the most-used model's reset; spell out the others when they differ
+    if (new Set(group.resets.values()).size > 1) {
+      const resets = [...group.resets.entries()]
+        .map(([model, resetTime]) => `${model.replace(/^gemini-/, '')} ${formatLocalTime(resetTime)}`);
+      notes.push(`${group.label} resets: ${resets.join(', ')}`);
+    }
   }
-
-  return { usage: parts.join("\n"), resetTime: resetStr };
+  return { windows, hidden, notes };
 }
 
 export class GeminiProvider extends ProviderBase {
   name = "Google Gemini";
   dashboard_url = GEMINI_DASHBOARD;
   cli_name = "gemini";
+  login_command = "gemini";
+  install_command = "npm install -g @google/gemini-cli";
 
   async fetch(): Promise<SubscriptionInfo> {
     let status = await getCliStatus(this.cli_name);
-    let error: string | undefined;
-    let usage = "";
-    let resetTime = "";
+    let failure: Partial<SubscriptionInfo> = {};
+    let account: string | undefined;
+    let windows: UsageWindow[] = [];
+    let plan: string | undefined;
+    let hidden = 0;
+    let quotaNotes: string[] = [];
+    let fetched = false;
     let authInProgress = false;
 
+    const applyQuota = (buckets: any[]) => {
+      ({ windows, hidden, notes: quotaNotes } = formatQuota(buckets, this.settings.hide_unused));
+      fetched = true;
+    };
+
     const missingOauth = !CLIENT_ID || !CLIENT_SECRET;
 
-    const creds = readGeminiCreds();
+    const creds = readGeminiCreds(this.settings);
     if (creds) {
       // Extract email from id_token
       let email: string | null = null;
@@ -198,120 +270,152 @@ export class GeminiProvider extends ProviderBase {
       // Update status with email
       if (email) {
         status = `Logged in (${email})`;
+        account = email;
       }
       
       let token = creds.access_token;
       let refreshToken = creds.refresh_token;
 
-      let { projectId, isAuthError } = token ? await getProjectId(token) : { projectId: null, isAuthError: true };
+      let { projectId, tier, isAuthError, cause }: CodeAssistInfo = token
+          ? await getProjectId(this.settings, token)
+          : { projectId: null, isAuthError: true };
 
       if ((isAuthError || !token) && refreshToken) {
-          const newTokens = await refreshAccessToken(refreshToken);
+          const newTokens = await refreshAccessToken(this.settings, refreshToken);
           if (newTokens) {
-              saveGeminiCreds(newTokens);
+              saveGeminiCreds(this.settings, newTokens);
               token = newTokens.access_token;
-              const res = await getProjectId(token);
+              const res = await getProjectId(this.settings, token);
               projectId = res.projectId;
+              tier = res.tier;
               isAuthError = res.isAuthError;
+              cause = res.cause;
           }
       }
 
+      plan = tier;
       if (projectId && token) {
-          const buckets = await getQuota(token, projectId);
-          if (buckets) {
-              const res = formatQuota(buckets);
-              usage = res.usage;
-              resetTime = res.resetTime;
+          const quota = await getQuota(this.settings, token, projectId);
+          if (quota.buckets) {
+              applyQuota(quota.buckets);
           } else {
-              error = "Failed to fetch usage";
+              failure = this.fail(quota.cause);
           }
       } else if (isAuthError) {
           // 自动登录流程
           console.log(`[${this.name}] Token 失效，尝试自动登录...`);
-          const loginSuccess = await this.autoLogin();
+          const loginSuccess = await this.tryAutoLogin();
           if (loginSuccess) {
               // 登录成功后重新读取凭证并获取数据
-              const newCreds = readGeminiCreds();
+              const newCreds = readGeminiCreds(this.settings);
               if (newCreds?.access_token) {
-                  const res = await getProjectId(newCreds.access_token);
+                  const res = await getProjectId(this.settings, newCreds.access_token);
+                  plan = res.tier;
                   if (res.projectId) {
-                      const buckets = await getQuota(newCreds.access_token, res.projectId);
-                      if (buckets) {
-                          const formatted = formatQuota(buckets);
-                          usage = formatted.usage;
-                          resetTime = formatted.resetTime;
-                          error = undefined;
-                      }
+                      const { buckets } = await getQuota(this.settings, newCreds.access_token, res.projectId);
+                      if (buckets) applyQuota(buckets);
                   }
               }
           }
-          if (!usage) {
+          if (!fetched) {
               if (loginSuccess) {
                 authInProgress = true;
                 status = email ? `Re-auth in progress (${email})` : 'Re-auth in progress';
-                error = "Authentication expired. Auto refresh triggered in background; waiting next refresh.";
+                failure = this.expired("Authentication expired. Auto refresh triggered in background; waiting next refresh.");
               } else if (missingOauth) {
-                error = "Token expired. Please run 'gemini' CLI to refresh.";
+                failure = this.expired("Token expired. Please run 'gemini' CLI to refresh.");
               } else {
-                error = "Authentication failed (cannot refresh token)";
+                failure = this.expired("Authentication failed (cannot refresh token)");
               }
           }
       } else {
-          error = "Failed to get project ID";
+          failure = this.fail(cause);
       }
     } else {
         // 没有凭证，尝试自动登录
         console.log(`[${this.name}] 未检测到登录凭证，尝试自动登录...`);
-        const loginSuccess = await this.autoLogin();
+        const loginSuccess = await this.tryAutoLogin();
         if (loginSuccess) {
-            const newCreds = readGeminiCreds();
+            const newCreds = readGeminiCreds(this.settings);
             if (newCreds?.access_token) {
-                const res = await getProjectId(newCreds.access_token);
+                const res = await getProjectId(this.settings, newCreds.access_token);
+                plan = res.tier;
                 if (res.projectId) {
-                    const buckets = await getQuota(newCreds.access_token, res.projectId);
-                    if (buckets) {
-                        const formatted = formatQuota(buckets);
-                        usage = formatted.usage;
-                        resetTime = formatted.resetTime;
-                        error = undefined;
-                    }
+                    const { buckets } = await getQuota(this.settings, newCreds.access_token, res.projectId);
+                    if (buckets) applyQuota(buckets);
                 }
             }
         }
-        if (!usage) {
+        if (!fetched) {
             if (loginSuccess) {
               authInProgress = true;
               status = 'Re-auth in progress';
-              error = "Auto refresh triggered in background; waiting next refresh.";
+              failure = { error: "Auto refresh triggered in background; waiting next refresh." };
             } else if (missingOauth) {
-              error = "Missing GEMINI_CLIENT_ID / GEMINI_CLIENT_SECRET";
+              failure = { error: "Missing GEMINI_CLIENT_ID / GEMINI_CLIENT_SECRET" };
             } else {
-              const expectedPath = getCredsPath();
-              error = `Not found: ${expectedPath}`;
+              const expectedPath = this.settings.credentials_file || getCredsPath();
+              failure = { error: `Not found: ${expectedPath}`, ...(await this.missingLogin()) };
             }
         }
     }
 
-    if (!usage) {
-        usage = this.manual.usage_text || "";
-    }
-    if (!resetTime) {
-        resetTime = this.manual.reset_time || "Sliding window";
-    }
-
     const statusLine = status || (authInProgress ? 'Re-auth in progress' : "Gemini CLI not detected");
-    const fullUsage = usage ? `${statusLine}\n${usage}` : statusLine;
 
     return {
       name: this.name,
-      usage_text: fullUsage.trim() || "—",
-      reset_time: resetTime,
+      status: statusLine,
+      plan,
+      account,
+      windows,
+      notes: fetched
+        ? [...quotaNotes, ...(hidden > 0 ? [`${hidden} unused model ${hidden === 1 ? 'quota' : 'quotas'} hidden`] : [])]
+        : this.manualNotes(),
+      reset_time: this.manual.reset_time || (windows.length > 0 ? "" : "Sliding window"),
       limit_note: this.manual.limit_note || "",
       dashboard_url: this.dashboard_url,
-      error
+      ...failure
     };
   }
 
+  endpoints(): string[] {
+    return [baseUrl(this.settings.base_url, GEMINI_API_BASE), GOOGLE_OAUTH_BASE];
+  }
+
+  async diagnose(): Promise<DiagnosticCheck[]> {
+    const checks: DiagnosticCheck[] = [];
+    // Same order as readGeminiCreds: the CLI's own file wins over the migrated copy
+    const paths = this.settings.credentials_file
+      ? [expandHome(this.settings.credentials_file)]
+      : [getLegacyCredsPath(), getCredsPath()];
+    const used = paths.find(p => fs.existsSync(p));
+    for (const p of paths) {
+      if (p === used) checks.push({ level: 'ok', label: 'Credentials', detail: `${p} (in use)` });
+      else if (fs.existsSync(p)) checks.push({ level: 'info', label: 'Credentials', detail: `${p} (ignored)` });
+      else checks.push({ level: used ? 'info' : 'fail', label: 'Credentials', detail: `${p} not found` });
+    }
+
+    const creds = readGeminiCreds(this.settings);
+    if (used && !creds) {
+      checks.push({ level: 'fail', label: 'Credentials', detail: `${used} is not valid JSON` });
+    }
+    if (creds) {
+      checks.push(this.expiryCheck('Access token', creds.expiry_date));
+      checks.push(creds.refresh_token
+        ? { level: 'ok', label: 'Refresh token', detail: 'present' }
+        : { level: 'warn', label: 'Refresh token', detail: 'missing; expired tokens need a new CLI login' });
+      const email = creds.id_token ? parseJwt(creds.id_token)?.email : null;
+      if (email) checks.push({ level: 'ok', label: 'Account', detail: email });
+    }
+
+    for (const name of ['GEMINI_CLIENT_ID', 'GEMINI_CLIENT_SECRET']) {
+      checks.push(process.env[name]
+        ? { level: 'ok', label: name, detail: 'set' }
+        : { level: 'warn', label: name, detail: 'not set; expired tokens cannot be refreshed (see .env.example)' });
+    }
+    return checks;
+  }
+
   async autoLogin(): Promise<boolean> {
     if (Date.now() - lastLoginLaunchAt < LOGIN_COOLDOWN_MS) {
       console.log(`[${this.name}] 登录流程已在后台启动，等待完成`);
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import { ProviderBase, SubscriptionInfo, UsageWindow } from './base.js';
+import { HttpProviderConfig, HttpWindowMapping, ManualConfig, ProviderSettings } from '../config.js';
+import { isJsonPath, queryJsonPath } from '../json_path.js';
+import { expandHome } from '../secret_store.js';
+import { httpRequest } from '../http.js';
+import { ProviderError } from '../errors.js';
+import { isReplaying } from '../traffic.js';
+
+/**
+ * Declarative provider defined under `custom_providers` in config.yaml
+ */
+export class HttpJsonProvider extends ProviderBase {
+  name: string;
+  dashboard_url: string;
+  cli_name = "";
+
+  private definition: HttpProviderConfig;
+
+  constructor(key: string, definition: HttpProviderConfig, manual: ManualConfig, settings: ProviderSettings = {}) {
+    super(manual, settings);
+    this.definition = definition;
+    this.name = definition.name || key;
+    this.dashboard_url = definition.dashboard_url || definition.url;
+  }
+
+  async fetch(): Promise<SubscriptionInfo> {
+    let failure: Partial<SubscriptionInfo> = {};
+    let plan: string | undefined;
+    let account: string | undefined;
+    let windows: UsageWindow[] = [];
+
+    try {
+      const data = await this.request();
+      plan = stringValue(resolve(data, this.definition.plan));
+      account = stringValue(resolve(data, this.definition.account));
+      windows = (this.definition.windows || []).flatMap(mapping => mapWindows(data, mapping));
+      if (windows.length === 0 && (this.definition.windows || []).length > 0) {
+        failure = this.fail(new ProviderError('unexpected_response', "No usage windows found in response"));
+      }
+    } catch (e: any) {
+      failure = e instanceof TemplateError ? { error: e.message } : this.fail(e);
+    }
+
+    return {
+      name: this.name,
+      status: failure.error ? "Request failed" : (account ? `Connected (${account})` : "Connected"),
+      plan,
+      account,
+      windows,
+      notes: windows.length > 0 ? [] : this.manualNotes(),
+      reset_time: this.manual.reset_time || "",
+      limit_note: this.manual.limit_note || "",
+      dashboard_url: this.dashboard_url,
+      ...failure
+    };
+  }
+
+  async autoLogin(): Promise<boolean> {
+    return false;
+  }
+
+  endpoints(): string[] {
+    try {
+      return [new URL(interpolate(this.definition.url)).origin];
+    } catch {
+      return [];
+    }
+  }
+
+  private async request(): Promise<any> {
+    const headers: Record<string, string> = {};
+    for (const [k, v] of Object.entries(this.definition.headers || {})) {
+      headers[k] = interpolate(v);
+    }
+
+    const resp = await httpRequest({
+      url: interpolate(this.definition.url),
+      method: this.definition.method || 'GET',
+      headers,
+      data: this.definition.body
+    }, { timeout: this.definition.timeout ?? this.settings.timeout, retries: this.settings.retries });
+    return resp.data;
+  }
+}
+
+class TemplateError extends Error {}
+
+// Stands in for ${env:}/${file:} values under --replay, which needs no secrets;
+// captured URLs are keyed with secret query parameters masked, so lookups still match
+const REPLAY_PLACEHOLDER = 'REPLAYED';
+
+// Expand ${env:NAME} and ${file:path} so secrets stay out of config.yaml
+function interpolate(template: string): string {
+  return template.replace(/\$\{(env|file):([^}]+)\}/g, (_, kind: string, ref: string) => {
+    if (isReplaying()) return REPLAY_PLACEHOLDER;
+    if (kind === 'env') {
+      const value = process.env[ref];
+      if (value === undefined) throw new TemplateError(`Missing environment variable ${ref}`);
+      return value;
+    }
+    try {
+      return fs.readFileSync(expandHome(ref), 'utf8').trim();
+    } catch {
+      throw new TemplateError(`Cannot read ${ref}`);
+    }
+  });
+}
+
+function resolve(data: any, spec: string | number | undefined): any {
+  if (spec === undefined) return undefined;
+  return isJsonPath(spec) ? queryJsonPath(data, spec) : spec;
+}
+
+function stringValue(value: any): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') return undefined;
+  return String(value);
+}
+
+function numberValue(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n;
+}
+
+// Accepts ISO strings and epoch seconds or milliseconds
+function timestampValue(value: any): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  const dt = isNaN(n) ? new Date(value) : new Date(n < 1e12 ? n * 1000 : n);
+  return isNaN(dt.getTime()) ? undefined : dt.toISOString();
+}
+
+function mapWindows(data: any, mapping: HttpWindowMapping): UsageWindow[] {
+  if (mapping.each) {
+    const items = queryJsonPath(data, mapping.each);
+    if (!Array.isArray(items)) return [];
+    return items
+      .map((item, i) => mapWindow(item, mapping, `${mapping.id || 'item'}_${i}`))
+      .filter((w): w is UsageWindow => w !== null);
+  }
+  const w = mapWindow(data, mapping, mapping.id || mapping.label);
+  return w ? [w] : [];
+}
+
+function mapWindow(scope: any, mapping: HttpWindowMapping, fallbackId: string): UsageWindow | null {
+  const label = stringValue(resolve(scope, mapping.label)) || fallbackId;
+  const used = numberValue(resolve(scope, mapping.used));
+  const limit = numberValue(resolve(scope, mapping.limit));
+  const utilization = numberValue(resolve(scope, mapping.utilization));
+  const fraction = numberValue(resolve(scope, mapping.used_fraction));
+
+  let usedFraction: number | undefined;
+  if (fraction !== undefined) usedFraction = fraction;
+  else if (utilization !== undefined) usedFraction = utilization / 100;
+  else if (used !== undefined && limit) usedFraction = used / limit;
+  if (usedFraction === undefined) return null;
+
+  return {
+    id: mapping.each ? label : fallbackId,
+    label,
+    used_fraction: usedFraction,
+    used,
+    limit,
+    resets_at: timestampValue(resolve(scope, mapping.resets_at)),
+    window_seconds: mapping.window_seconds
+  };
+}
@@ -1,12 +1,17 @@
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { getCliStatus } from '../cli_runner.js';
-import { ProviderBase, SubscriptionInfo } from './base.js';
+import { ProviderBase, SubscriptionInfo, UsageWindow, DiagnosticCheck, CreditBalance } from './base.js';
 import { parseJwt } from '../utils.js';
+import { ProviderSettings } from '../config.js';
+import { expandHome } from '../secret_store.js';
+import { httpRequest, baseUrl } from '../http.js';
+import { ProviderError } from '../errors.js';
+import { isReplaying, replayCredential, recordCredential } from '../traffic.js';
 
 const OPENAI_DASHBOARD = "https://chatgpt.com/codex/settings/usage";
+const OPENAI_API_BASE = "https://chatgpt.com/backend-api";
 
 function getXdgConfigHome(): string {
   return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
@@ -37,11 +42,32 @@ function migrateFromLegacy(): boolean {
   }
 }
 
-function readCodexAuth(): { token: string | null; accountId: string | null; email: string | null } {
+interface CodexAuth {
+  token: string | null;
+  accountId: string | null;
+  email: string | null;
+}
+
+function readCodexAuth(settings: ProviderSettings): CodexAuth {
+  const key = `codex-auth:${settings.credentials_file || 'default'}`;
+  if (isReplaying()) {
+    return replayCredential<CodexAuth>(key) || { token: null, accountId: null, email: null };
+  }
+  const auth = readCodexAuthFile(settings);
+  recordCredential(key, auth);
+  return auth;
+}
+
+function readCodexAuthFile(settings: ProviderSettings): CodexAuth {
   try {
-    migrateFromLegacy();
+    // An explicit credentials_file (e.g. a second CODEX_HOME) is used as-is
+    let authPath = getAuthPath();
+    if (settings.credentials_file) {
+      authPath = expandHome(settings.credentials_file);
+    } else {
+      migrateFromLegacy();
+    }
     
-    const authPath = getAuthPath();
     if (!fs.existsSync(authPath)) return { token: null, accountId: null, email: null };
     
     const content = fs.readFileSync(authPath, 'utf8');
@@ -63,128 +89,213 @@ function readCodexAuth(): { token: string | null; accountId: string | null; emai
   }
 }
 
-async function fetchOpenAIUsage(token: string, accountId: string) {
-  try {
-    const resp = await axios.get("https://chatgpt.com/backend-api/wham/usage", {
-      headers: {
-        "Authorization": `Bearer ${token}`,
-        "User-Agent": "codex/0.93.0",
-        "ChatGPT-Account-Id": accountId
-      },
-      timeout: 10000
+async function fetchOpenAIUsage(settings: ProviderSettings, token: string, accountId: string) {
+  const resp = await httpRequest({
+    url: `${baseUrl(settings.base_url, OPENAI_API_BASE)}/wham/usage`,
+    headers: {
+      "Authorization": `Bearer ${token}`,
+      "User-Agent": "codex/0.93.0",
+      "ChatGPT-Account-Id": accountId
+    }
+  }, settings);
+  if (!resp.data || typeof resp.data !== 'object' || !('rate_limit' in resp.data || 'plan_type' in resp.data)) {
+    throw new ProviderError('unexpected_response', 'Usage response has no rate_limit or plan_type');
+  }
+  return resp.data;
+}
+
+function windowLabel(windowSec: number): string {
+  if (windowSec >= 86400) return `${Math.floor(windowSec / 86400)}d`;
+  if (windowSec >= 3600) return `${Math.floor(windowSec / 3600)}h`;
+  return `${Math.floor(windowSec / 60)}m`;
+}
+
+// "code_review_rate_limit" -> "Code Review"
+function familyName(key: string): string {
+  return key
+    .replace(/_?rate_limits?$/, '')
+    .split('_')
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+/**
+ * Windows of one rate-limit family. The main `rate_limit` keeps the bare
+ * "primary"/"secondary" ids; other families are prefixed, e.g. "code_review.primary".
+ */
+function familyWindows(prefix: string, label: string, family: any): UsageWindow[] {
+  const windows: UsageWindow[] = [];
+  const slots = [
+    { id: "primary", entry: family.primary_window, defaultSeconds: 18000 },
+    { id: "secondary", entry: family.secondary_window, defaultSeconds: 604800 }
+  ];
+
+  for (const slot of slots) {
+    if (!slot.entry) continue;
+    const pct = slot.entry.used_percent || 0;
+    const resetAt = slot.entry.reset_at
+      || (slot.entry.reset_after_seconds !== undefined ? Date.now() / 1000 + slot.entry.reset_after_seconds : undefined);
+    const windowSec = slot.entry.limit_window_seconds || slot.defaultSeconds;
+    windows.push({
+      id: prefix ? `${prefix}.${slot.id}` : slot.id,
+      label: label ? `${label} ${windowLabel(windowSec)}` : `${windowLabel(windowSec)} Limit`,
+      used_fraction: pct / 100,
+      resets_at: resetAt ? new Date(resetAt * 1000).toISOString() : undefined,
+      window_seconds: windowSec
     });
-    return resp.data;
-  } catch {
-    return null;
   }
+
+  // Blame the fullest window when the server says the family is exhausted
+  if (family.limit_reached === true || family.allowed === false) {
+    const fullest = windows.reduce<UsageWindow | undefined>((max, w) => !max || w.used_fraction > max.used_fraction ? w : max, undefined);
+    if (fullest) fullest.limit_reached = true;
+  }
+  return windows;
+}
+
+function formatCredits(credits: any): CreditBalance | undefined {
+  if (!credits || typeof credits !== 'object') return undefined;
+  const balance = Number(credits.balance);
+  return {
+    available: !!credits.has_credits || !!credits.unlimited,
+    unlimited: credits.unlimited ? true : undefined,
+    balance: Number.isFinite(balance) ? balance : undefined
+  };
 }
 
-function formatOpenAI(data: any): string {
+function formatOpenAI(data: any): { plan: string; windows: UsageWindow[]; credits?: CreditBalance; notes: string[] } {
   const planType = data.plan_type || "unknown";
   const planMap: Record<string, string> = {
     "plus": "ChatGPT Plus",
     "pro": "ChatGPT Pro",
     "team": "ChatGPT Team",
+    "business": "ChatGPT Business",
+    "edu": "ChatGPT Edu",
     "enterprise": "ChatGPT Enterprise",
     "free": "ChatGPT Free"
   };
   const planName = planMap[planType] || planType;
 
-  const parts = [`Plan: ${planName}`];
-  const rateLimit = data.rate_limit || {};
-  const primary = rateLimit.primary_window;
-  const secondary = rateLimit.secondary_window;
-
-  function formatReset(ts: number, fmt: 'hm' | 'mdhm') {
-      try {
-        const dt = new Date(ts * 1000);
-        const m = (dt.getMonth() + 1).toString().padStart(2, '0');
-        const d = dt.getDate().toString().padStart(2, '0');
-        const h = dt.getHours().toString().padStart(2, '0');
-        const min = dt.getMinutes().toString().padStart(2, '0');
-        const offset = -dt.getTimezoneOffset() / 60;
-        const sign = offset >= 0 ? '+' : '-';
-        const zone = `${sign}${Math.abs(offset).toString().padStart(2, '0')}`;
-
-        if (fmt === 'hm') return `${h}:${min} ${zone}`;
-        return `${m}-${d} ${h}:${min} ${zone}`;
-      } catch {
-          return '';
-      }
+  const windows: UsageWindow[] = [];
+  if (data.rate_limit) {
+    windows.push(...familyWindows("", "", data.rate_limit));
   }
-
-  if (primary) {
-      const pct = primary.used_percent || 0;
-      const resetAt = primary.reset_at;
-      const windowSec = primary.limit_window_seconds || 18000;
-      const label = windowSec >= 3600 ? `${Math.floor(windowSec / 3600)}h` : `${Math.floor(windowSec / 60)}m`;
-      
-      let resetStr = "";
-      if (resetAt) {
-          resetStr = `  Reset: ${formatReset(resetAt, 'mdhm')}`;
-      }
-      parts.push(`${label} Limit: ${pct}%${resetStr}`);
+  // Every other "*_rate_limit" object, e.g. code_review_rate_limit
+  for (const [key, family] of Object.entries<any>(data)) {
+    if (key === 'rate_limit' || !/_rate_limit$/.test(key) || !family || typeof family !== 'object') continue;
+    windows.push(...familyWindows(key.replace(/_rate_limit$/, ''), familyName(key), family));
+  }
+  // Metered features listed separately, each with its own rate_limit object
+  if (Array.isArray(data.additional_rate_limits)) {
+    for (const extra of data.additional_rate_limits) {
+      const name = extra?.limit_name || extra?.metered_feature;
+      if (!name || !extra.rate_limit) continue;
+      const id = String(name).toLowerCase().replace(/[^a-z0-9]+/g, '_');
+      windows.push(...familyWindows(id, familyName(id), extra.rate_limit));
+    }
   }
 
-  if (secondary) {
-      const pct = secondary.used_percent || 0;
-      const resetAt = secondary.reset_at;
-      const windowSec = secondary.limit_window_seconds || 604800;
-      let label = "";
-      if (windowSec >= 86400) label = `${Math.floor(windowSec / 86400)}d`;
-      else label = `${Math.floor(windowSec / 3600)}h`;
-
-      let resetStr = "";
-      if (resetAt) {
-          resetStr = `  Reset: ${formatReset(resetAt, 'mdhm')}`;
-      }
-      parts.push(`${label} Limit: ${pct}%${resetStr}`);
+  const notes: string[] = [];
+  const credits = formatCredits(data.credits);
+  if (credits?.unlimited) {
+    notes.push("Credits: unlimited");
+  } else if (credits?.available) {
+    notes.push(`Credits: ${credits.balance ?? '?'} remaining`);
+  } else if (credits) {
+    notes.push("Credits: none purchased");
   }
 
-  return parts.join("\n");
+  return { plan: planName, windows, credits, notes };
 }
 
 export class OpenAIProvider extends ProviderBase {
   name = "OpenAI (Codex)";
   dashboard_url = OPENAI_DASHBOARD;
   cli_name = "codex";
+  login_command = "codex login";
+  install_command = "npm install -g @openai/codex";
 
   async fetch(): Promise<SubscriptionInfo> {
     let status = await getCliStatus(this.cli_name);
-    let error: string | undefined;
-    let usage = "";
+    let failure: Partial<SubscriptionInfo> = {};
+    let plan: string | undefined;
+    let windows: UsageWindow[] = [];
+    let credits: CreditBalance | undefined;
+    let notes: string[] = [];
     
-    const { token, accountId, email } = readCodexAuth();
+    const { token, accountId, email } = readCodexAuth(this.settings);
     if (token && accountId) {
         if (email) {
             status = `Logged in (${email})`;
         }
         
-        const data = await fetchOpenAIUsage(token, accountId);
-        if (data) {
-            usage = formatOpenAI(data);
-        } else {
-            error = "Failed to fetch usage";
+        try {
+            const res = formatOpenAI(await fetchOpenAIUsage(this.settings, token, accountId));
+            plan = res.plan;
+            windows = res.windows;
+            credits = res.credits;
+            notes = res.notes;
+        } catch (e) {
+            failure = this.fail(e);
         }
+    } else {
+        failure = await this.missingLogin();
     }
 
-    if (!usage) {
-        usage = this.manual.usage_text || "";
-    }
-
-    const statusLine = status || "Codex login not detected";
-    const fullUsage = usage ? `${statusLine}\n${usage}` : statusLine;
-
     return {
       name: this.name,
-      usage_text: fullUsage.trim() || "—",
+      status: status || "Codex login not detected",
+      plan,
+      account: email || undefined,
+      windows,
+      notes: plan ? notes : this.manualNotes(),
+      credits,
       reset_time: this.manual.reset_time || "",
       limit_note: this.manual.limit_note || "",
       dashboard_url: this.dashboard_url,
-      error
+      ...failure
     };
   }
 
+  endpoints(): string[] {
+    return [baseUrl(this.settings.base_url, OPENAI_API_BASE)];
+  }
+
+  async diagnose(): Promise<DiagnosticCheck[]> {
+    const checks: DiagnosticCheck[] = [];
+    // Read first: this performs the one-time migration from ~/.codex
+    const { token, accountId, email } = readCodexAuth(this.settings);
+    if (this.settings.credentials_file) {
+      const p = expandHome(this.settings.credentials_file);
+      checks.push(fs.existsSync(p)
+        ? { level: 'ok', label: 'Credentials', detail: p }
+        : { level: 'fail', label: 'Credentials', detail: `${p} not found` });
+    } else {
+      const current = getAuthPath();
+      const legacy = getLegacyAuthPath();
+      for (const p of [current, legacy]) {
+        checks.push(fs.existsSync(p)
+          ? { level: 'ok', label: 'Credentials', detail: p }
+          : { level: 'info', label: 'Credentials', detail: `${p} not found` });
+      }
+      // The copy is taken once; a later `codex login` only updates the legacy file
+      if (fs.existsSync(current) && fs.existsSync(legacy) && fs.statSync(legacy).mtimeMs > fs.statSync(current).mtimeMs) {
+        checks.push({ level: 'warn', label: 'Credentials', detail: `${legacy} is newer than ${current}; delete the latter to re-import it` });
+      }
+    }
+
+    if (!token) {
+      checks.push({ level: 'fail', label: 'Access token', detail: `none found; run '${this.login_command}'` });
+      return checks;
+    }
+    checks.push(this.expiryCheck('Access token', (parseJwt(token)?.exp || 0) * 1000 || null));
+    checks.push(accountId
+      ? { level: 'ok', label: 'Account', detail: email ? `${email} (${accountId})` : accountId }
+      : { level: 'fail', label: 'Account', detail: 'tokens.account_id missing from auth.json' });
+    return checks;
+  }
+
   async autoLogin(): Promise<boolean> {
     // OpenAI/Codex 使用浏览器 OAuth 登录，不支持命令行自动登录
     console.log(`[${this.name}] 请手动运行 'codex login' 命令登录`);
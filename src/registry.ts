@@ -0,0 +1,87 @@
+import { Config, ProviderSettings } from './config.js';
+import { ProviderBase } from './providers/base.js';
+import { OpenAIProvider } from './providers/openai.js';
+import { GeminiProvider } from './providers/gemini.js';
+import { AnthropicProvider } from './providers/anthropic.js';
+import { CursorProvider } from './providers/cursor.js';
+import { CopilotProvider } from './providers/copilot.js';
+import { HttpJsonProvider } from './providers/http_json.js';
+
+const PROVIDERS: Record<string, any> = {
+    openai: OpenAIProvider,
+    gemini: GeminiProvider,
+    claude: AnthropicProvider,
+    cursor: CursorProvider,
+    copilot: CopilotProvider
+};
+
+export function builtinProviderKeys(): string[] {
+    return Object.keys(PROVIDERS);
+}
+
+// Providers with `accounts` expand to one key per account, e.g. "openai:work".
+// Disabled entries are dropped; `order` sorts the rest (stable, unset last).
+export function allProviderKeys(config: Config): string[] {
+    const custom = Object.keys(config.custom_providers || {}).filter(key => !PROVIDERS[key]);
+    const entries = [...Object.keys(PROVIDERS), ...custom].flatMap(key => {
+        const { accounts, ...base } = config.providers?.[key] || {};
+        if (accounts && Object.keys(accounts).length > 0) {
+            return Object.entries(accounts).map(([account, settings]) => ({
+                key: `${key}:${account}`,
+                settings: { ...base, ...settings } as ProviderSettings
+            }));
+        }
+        return [{ key, settings: base as ProviderSettings }];
+    });
+
+    return entries
+        .filter(entry => entry.settings.enabled !== false)
+        .sort((a, b) => (a.settings.order ?? Infinity) - (b.settings.order ?? Infinity))
+        .map(entry => entry.key);
+}
+
+/**
+ * Instantiate the provider behind a key such as "claude", "openai:work" or a
+ * custom_providers entry. `overrides` win over everything from config.
+ */
+export function createProvider(key: string, config: Config, overrides: ProviderSettings = {}): ProviderBase | null {
+    const [baseKey, account] = key.split(':', 2);
+    const manual = (config.manual || {})[key] || (config.manual || {})[baseKey] || {};
+    const { accounts, ...providerSettings } = (config.providers || {})[baseKey] || {};
+
+    let settings: ProviderSettings = providerSettings;
+    if (account) {
+        if (!accounts?.[account]) return null;
+        settings = { ...providerSettings, ...accounts[account], label: accounts[account].label || account };
+    }
+    settings = { ...settings, ...overrides };
+
+    let inst: ProviderBase | null = null;
+    const ProviderClass = PROVIDERS[baseKey];
+    const definition = config.custom_providers?.[baseKey];
+    if (ProviderClass) {
+        inst = new ProviderClass(manual, settings);
+    } else if (definition?.url) {
+        inst = new HttpJsonProvider(baseKey, definition, manual, settings);
+    }
+
+    if (inst) {
+        // An account's own title wins; a provider title keeps the account label
+        const accountTitle = account ? accounts?.[account]?.title : undefined;
+        if (accountTitle) {
+            inst.name = accountTitle;
+        } else {
+            if (providerSettings.title) inst.name = providerSettings.title;
+            if (settings.label) inst.name = `${inst.name} · ${settings.label}`;
+        }
+    }
+    return inst;
+}
+
+// "openai" selects every openai account, "openai:work" just that one
+export function filterProviderKeys(keys: string[], selection?: string[]): string[] {
+    if (!selection || selection.length === 0) return keys;
+    return keys.filter(key =>
+        selection.some(sel => key === sel || key.startsWith(`${sel}:`))
+    );
+}
@@ -0,0 +1,342 @@
+import chalk from 'chalk';
+import boxen from 'boxen';
+import wrapAnsi from 'wrap-ansi';
+import { SubscriptionInfo, UsageWindow, ModelUsage, TeamUsage } from './providers/base.js';
+import { ERROR_KIND_LABELS } from './errors.js';
+import { renderBar, ljustCJK, displayWidth, truncateCJK, formatLocalTime, formatDuration, BAR_WIDTH } from './utils.js';
+
+export interface PanelOptions {
+    focused?: boolean;
+    width?: number;
+}
+
+export interface GridLayout {
+    perRow: number;
+    width: number;
+}
+
+const DEFAULT_PANEL_WIDTH = 76;
+const MIN_PANEL_WIDTH = 56;
+const MAX_PANEL_WIDTH = 100;
+const MIN_BAR_WIDTH = 8;
+const GRID_GAP = 2;
+const MAX_BREAKDOWN_ROWS = 5;
+const MAX_TEAM_ROWS = 5;
+
+// Border (1) + padding (1) on each side
+const PANEL_CHROME = 4;
+
+/**
+ * Columns of the attached terminal, or null when output is piped
+ */
+export function terminalColumns(): number | null {
+    return process.stdout.isTTY && process.stdout.columns ? process.stdout.columns : null;
+}
+
+/**
+ * How many panels fit side by side and how wide each one is. Piped output
+ * keeps the classic single 76-column panel.
+ */
+export function gridLayout(count: number, columns: number | null): GridLayout {
+    if (!columns) return { perRow: 1, width: DEFAULT_PANEL_WIDTH };
+
+    const fit = Math.floor((columns + GRID_GAP) / (MIN_PANEL_WIDTH + GRID_GAP));
+    const perRow = Math.max(1, Math.min(fit, count || 1));
+    const width = Math.floor((columns - GRID_GAP * (perRow - 1)) / perRow);
+    return { perRow, width: Math.max(30, Math.min(MAX_PANEL_WIDTH, width)) };
+}
+
+/**
+ * Lay rendered blocks out row by row, padding each to the column width
+ */
+export function renderGrid(blocks: string[], layout: GridLayout): string {
+    if (layout.perRow <= 1) return blocks.join('\n');
+
+    const rows: string[] = [];
+    for (let i = 0; i < blocks.length; i += layout.perRow) {
+        const group = blocks.slice(i, i + layout.perRow).map(b => b.split('\n'));
+        const height = Math.max(...group.map(lines => lines.length));
+        for (let line = 0; line < height; line++) {
+            rows.push(group
+                .map(lines => ljustCJK(lines[line] || '', layout.width))
+                .join(' '.repeat(GRID_GAP))
+                .trimEnd());
+        }
+    }
+    return rows.join('\n');
+}
+
+function renderForecast(w: UsageWindow): string {
+    const projection = w.projection;
+    if (!projection?.exhausts_at) return '';
+
+    const now = Date.now();
+    const exhaustsIn = new Date(projection.exhausts_at).getTime() - now;
+    let text = exhaustsIn <= 0
+        ? 'limit reached'
+        : `at current pace: exhausted in ${formatDuration(exhaustsIn)}`;
+    if (w.resets_at) {
+        text += ` (resets in ${formatDuration(new Date(w.resets_at).getTime() - now)})`;
+    }
+    return projection.exhausts_before_reset ? chalk.red(text) : chalk.dim(text);
+}
+
+function errorText(info: SubscriptionInfo): string {
+    const label = info.error_kind ? ERROR_KIND_LABELS[info.error_kind] : '';
+    if (!info.error) return label;
+    return label ? `${label}: ${info.error}` : info.error;
+}
+
+function formatAmount(value: number, unit?: 'usd'): string {
+    return unit === 'usd' ? `$${value.toFixed(2)}` : String(value);
+}
+
+// 1234 -> 1.2k, 2500000 -> 2.5M
+function formatCount(n: number): string {
+    if (n >= 1e9) return `${(n / 1e9).toFixed(1)}B`;
+    if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+    if (n >= 1e3) return `${(n / 1e3).toFixed(1)}k`;
+    return String(Math.round(n));
+}
+
+function windowDetails(w: UsageWindow): string {
+    const rest: string[] = [];
+    if (w.limit_reached) {
+        rest.push('LIMIT REACHED');
+    }
+    if (w.used !== undefined && w.limit !== undefined) {
+        rest.push(`(${formatAmount(w.used, w.unit)}/${formatAmount(w.limit, w.unit)})`);
+    }
+    if (w.resets_at) {
+        rest.push(`Reset: ${formatLocalTime(w.resets_at)}`);
+    }
+    return rest.join('  ');
+}
+
+/**
+ * Per-model table: requests, cost and total tokens, top rows only
+ */
+function renderBreakdown(breakdown: ModelUsage[], inner: number): string[] {
+    const rows = breakdown.slice(0, MAX_BREAKDOWN_ROWS).map(usage => {
+        const tokens = (usage.input_tokens || 0) + (usage.output_tokens || 0)
+            + (usage.cache_read_tokens || 0) + (usage.cache_write_tokens || 0);
+        return {
+            model: usage.model,
+            requests: `${usage.requests} req`,
+            cost: usage.cost_usd !== undefined ? formatAmount(usage.cost_usd, 'usd') : '',
+            tokens: tokens > 0 ? `${formatCount(tokens)} tok` : ''
+        };
+    });
+    const width = (key: 'requests' | 'cost' | 'tokens') => rows.reduce((max, r) => Math.max(max, r[key].length), 0);
+    const requestsWidth = width('requests');
+    const costWidth = width('cost');
+    const tokensWidth = width('tokens');
+    const modelWidth = Math.max(8, Math.min(
+        rows.reduce((max, r) => Math.max(max, displayWidth(r.model)), 0),
+        inner - 2 - requestsWidth - costWidth - tokensWidth - 6
+    ));
+
+    const lines = rows.map(r => {
+        const columns = [r.requests.padStart(requestsWidth), r.cost.padStart(costWidth), r.tokens.padStart(tokensWidth)]
+            .filter((_, i) => [requestsWidth, costWidth, tokensWidth][i] > 0);
+        return `  ${ljustCJK(truncateCJK(r.model, modelWidth), modelWidth)}  ${chalk.dim(columns.join('  '))}`;
+    });
+    if (breakdown.length > rows.length) {
+        lines.push(chalk.dim(`  … ${breakdown.length - rows.length} more models`));
+    }
+    return [chalk.dim('By model:'), ...lines];
+}
+
+/**
+ * Team members, those close to their limit first and marked with "!"
+ */
+function renderTeam(team: TeamUsage, inner: number): string[] {
+    const nearLimit = team.members.filter(m => m.near_limit).length;
+    const summary = [`${team.members.length} members`];
+    if (nearLimit > 0) summary.push(`${nearLimit} near limit`);
+    if (!team.limit_usd) summary.push(`${formatAmount(team.spend_usd, 'usd')} spent`);
+    const lines = [chalk.dim(`Team ${team.name} (${summary.join(', ')}):`)];
+
+    const rows = team.members.slice(0, MAX_TEAM_ROWS).map(m => ({
+        marker: m.near_limit ? chalk.yellow('!') : ' ',
+        name: m.name,
+        requests: `${m.requests} req`,
+        spend: m.limit_usd !== undefined
+            ? `${formatAmount(m.spend_usd, 'usd')}/${formatAmount(m.limit_usd, 'usd')}`
+            : formatAmount(m.spend_usd, 'usd')
+    }));
+    const requestsWidth = rows.reduce((max, r) => Math.max(max, r.requests.length), 0);
+    const spendWidth = rows.reduce((max, r) => Math.max(max, r.spend.length), 0);
+    const nameWidth = Math.max(8, Math.min(
+        rows.reduce((max, r) => Math.max(max, displayWidth(r.name)), 0),
+        inner - 4 - requestsWidth - spendWidth - 4
+    ));
+    for (const r of rows) {
+        const name = ljustCJK(truncateCJK(r.name, nameWidth), nameWidth);
+        lines.push(`${r.marker} ${name}  ${chalk.dim(`${r.requests.padStart(requestsWidth)}  ${r.spend.padStart(spendWidth)}`)}`);
+    }
+    if (team.members.length > rows.length) {
+        lines.push(chalk.dim(`  … ${team.members.length - rows.length} more members`));
+    }
+    return lines;
+}
+
+export function renderPanel(info: SubscriptionInfo, opts: PanelOptions = {}): string {
+    const width = opts.width || DEFAULT_PANEL_WIDTH;
+    const inner = width - PANEL_CHROME;
+    const lines: string[] = [];
+    
+    if (info.error) {
+        lines.push(`${chalk.yellow('⚠')} ${chalk.red(errorText(info))}`);
+    }
+
+    lines.push(info.status);
+    if (info.hint) {
+        lines.push(chalk.cyan(`→ ${info.hint}`));
+    }
+    if (info.plan) {
+        lines.push(`Plan: ${info.plan}`);
+    }
+
+    const maxLabelWidth = Math.min(
+        info.windows.reduce((max, w) => Math.max(max, displayWidth(w.label)), 0),
+        Math.floor(inner / 3)
+    );
+    const details = info.windows.map(windowDetails);
+    const maxDetailWidth = details.reduce((max, d) => Math.max(max, d ? displayWidth(d) + 2 : 0), 0);
+
+    // label + ": " + bar + " " + "100%"
+    const fixed = maxLabelWidth + 2 + 1 + 4;
+    const inlineDetails = inner - fixed - maxDetailWidth >= MIN_BAR_WIDTH;
+    const barWidth = Math.max(MIN_BAR_WIDTH, Math.min(BAR_WIDTH, inner - fixed - (inlineDetails ? maxDetailWidth : 0)));
+    const indent = ' '.repeat(maxLabelWidth + 2);
+
+    info.windows.forEach((w, i) => {
+        let row = chalk.dim(`${ljustCJK(truncateCJK(w.label, maxLabelWidth), maxLabelWidth)}: `);
+        row += renderBar(w.used_fraction, 4, barWidth);
+
+        const detail = w.limit_reached ? chalk.red(details[i]) : chalk.dim(details[i]);
+        if (details[i] && inlineDetails) {
+            row += `  ${detail}`;
+        }
+        lines.push(row);
+        if (details[i] && !inlineDetails) {
+            lines.push(indent + detail);
+        }
+
+        const forecast = renderForecast(w);
+        if (forecast) {
+            lines.push(indent + forecast);
+        }
+    });
+
+    if (info.breakdown && info.breakdown.length > 0) {
+        lines.push(...renderBreakdown(info.breakdown, inner));
+    }
+    if (info.team) {
+        lines.push(...renderTeam(info.team, inner));
+    }
+
+    for (const note of info.notes) {
+        lines.push(note);
+    }
+
+    if (info.reset_time && info.reset_time !== '—') {
+        lines.push(`${chalk.cyan('↻')} ${chalk.dim(info.reset_time)}`);
+    }
+
+    // Wrap ourselves: once any line overflows, boxen re-wraps everything and
+    // trims the indentation that aligns details under the bars
+    const content = lines.map(line => wrapAnsi(line, inner, { hard: true, trim: false })).join('\n');
+
+    const url = truncateCJK(info.dashboard_url, width);
+    return boxen(content, {
+        title: chalk.bold(truncateCJK(opts.focused ? `▶ ${info.name}` : info.name, inner - 2)),
+        titleAlignment: 'center',
+        padding: { top: 0, bottom: 0, left: 1, right: 1 },
+        borderStyle: 'round',
+        borderColor: opts.focused ? 'cyan' : (info.error ? 'yellow' : 'green'),
+        width,
+    }) + `\n${chalk.dim(url.padStart(Math.floor(width / 2 + url.length / 2)))}`;
+}
+
+/**
+ * One line per window: provider, label, bar and time to reset
+ */
+export function renderCompact(info: SubscriptionInfo, opts: PanelOptions & { nameWidth?: number; labelWidth?: number } = {}): string[] {
+    const width = opts.width || DEFAULT_PANEL_WIDTH;
+    const nameWidth = opts.nameWidth ?? displayWidth(info.name);
+    const labelWidth = opts.labelWidth ?? info.windows.reduce((max, w) => Math.max(max, displayWidth(w.label)), 0);
+    const marker = opts.focused ? chalk.cyan('▶ ') : '';
+    const name = (shown: boolean) => {
+        const text = ljustCJK(shown ? truncateCJK(info.name, nameWidth) : '', nameWidth);
+        return marker + (shown ? chalk.bold(text) : text);
+    };
+
+    if (info.error) {
+        return [`${name(true)}  ${chalk.yellow('⚠')} ${chalk.red(truncateCJK(errorText(info), Math.max(10, width - nameWidth - 4)))}`];
+    }
+    if (info.windows.length === 0) {
+        return [`${name(true)}  ${chalk.dim(truncateCJK(info.status, Math.max(10, width - nameWidth - 2)))}`];
+    }
+
+    const now = Date.now();
+    return info.windows.map((w, i) => {
+        const reset = w.resets_at ? `↻ ${formatDuration(new Date(w.resets_at).getTime() - now)}` : '';
+        const fixed = nameWidth + 2 + labelWidth + 2 + 5 + (reset ? displayWidth(reset) + 2 : 0);
+        const barWidth = Math.max(MIN_BAR_WIDTH, Math.min(20, width - fixed));
+        let row = `${name(i === 0)}  ${chalk.dim(ljustCJK(truncateCJK(w.label, labelWidth), labelWidth))}  ${renderBar(w.used_fraction, 4, barWidth)}`;
+        if (reset) row += `  ${chalk.dim(reset)}`;
+        if (w.limit_reached || w.projection?.exhausts_before_reset) row += chalk.red(' !');
+        return row;
+    });
+}
+
+/**
+ * Column widths shared by all compact rows so they line up across providers
+ */
+export function compactWidths(infos: SubscriptionInfo[], columns: number | null): { nameWidth: number; labelWidth: number } {
+    const budget = columns ? Math.max(12, Math.floor(columns / 4)) : 24;
+    const nameWidth = Math.min(budget, infos.reduce((max, i) => Math.max(max, displayWidth(i.name)), 0));
+    const labelWidth = Math.min(budget, infos.reduce((max, i) =>
+        Math.max(max, ...i.windows.map(w => displayWidth(w.label)), 0), 0));
+    return { nameWidth, labelWidth };
+}
+
+// One-line stand-in for a panel hidden in the interactive view
+export function renderCollapsed(info: SubscriptionInfo, opts: PanelOptions = {}): string {
+    const marker = opts.focused ? chalk.cyan('▶') : ' ';
+    return `${marker} ${chalk.dim(`${info.name} (hidden)`)}`;
+}
+
+/**
+ * Full dashboard body: a grid of panels, or compact rows
+ */
+export function renderPanels(
+    infos: SubscriptionInfo[],
+    opts: { compact?: boolean; focused?: number; hidden?: (index: number) => boolean } = {}
+): string {
+    const columns = terminalColumns();
+
+    if (opts.compact) {
+        const widths = compactWidths(infos, columns);
+        const width = columns || DEFAULT_PANEL_WIDTH;
+        return infos.flatMap((info, i) => opts.hidden?.(i)
+            ? [renderCollapsed(info, { focused: opts.focused === i })]
+            : renderCompact(info, { ...widths, width, focused: opts.focused === i })
+        ).join('\n');
+    }
+
+    const visible = infos.filter((_, i) => !opts.hidden?.(i)).length;
+    const layout = gridLayout(visible, columns);
+    const blocks: string[] = [];
+    const collapsed: string[] = [];
+    infos.forEach((info, i) => {
+        const focused = opts.focused === i;
+        if (opts.hidden?.(i)) collapsed.push(renderCollapsed(info, { focused }));
+        else blocks.push(renderPanel(info, { focused, width: layout.width }));
+    });
+
+    const body = renderGrid(blocks, layout);
+    return collapsed.length > 0 ? `${body}\n${collapsed.join('\n')}` : body;
+}
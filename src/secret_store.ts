@@ -0,0 +1,285 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { spawn } from 'child_process';
+import { execCommand, shellQuote, parseJwt } from './utils.js';
+import { readSecureCache, updateSecureCache } from './secure_cache.js';
+import { isReplaying, replayCredential, recordCredential, portablePath } from './traffic.js';
+
+export type SecretSource = 'keychain' | 'secret-service' | 'file' | 'state-db';
+
+export interface SecretQuery {
+  /** Keychain service name / Secret Service "service" attribute */
+  service: string;
+  /** Extra Secret Service attributes, defaults to { service } */
+  attributes?: Record<string, string>;
+  /** Path read by the file source */
+  file?: string;
+  /** VS Code style state.vscdb read by the state-db source, and the ItemTable key */
+  db?: string;
+  dbKey?: string;
+}
+
+interface CacheEntry {
+  value: string | null;
+  timestamp: number;
+}
+
+interface CacheData {
+  [cacheKey: string]: CacheEntry;
+}
+
+const DEFAULT_TTL = 30 * 60 * 1000;
+
+function loadCache(): CacheData {
+  return readSecureCache<CacheData>() || {};
+}
+
+function setCacheEntry(key: string, entry: CacheEntry): void {
+  updateSecureCache<CacheData>(cache => ({ ...(cache || {}), [key]: entry }));
+}
+
+function cacheKey(source: SecretSource, service: string): string {
+  // Keychain entries keep their bare service name so existing caches stay valid
+  return source === 'keychain' ? service : `${source}:${service}`;
+}
+
+/**
+ * Sources tried for `auto`, in order, for the current platform
+ */
+export function defaultSecretSources(): SecretSource[] {
+  if (process.platform === 'darwin') return ['keychain', 'file'];
+  if (process.platform === 'linux') return ['file', 'secret-service'];
+  return ['file'];
+}
+
+export function expandHome(p: string): string {
+  return p.replace(/^~(?=$|[\/\\])/, os.homedir());
+}
+
+async function readKeychain(query: SecretQuery): Promise<string | null> {
+  if (process.platform !== 'darwin') return null;
+  const { stdout } = await execCommand(`security find-generic-password -s ${shellQuote(query.service)} -w`, 5000);
+  return stdout || null;
+}
+
+async function readSecretService(query: SecretQuery): Promise<string | null> {
+  const attributes = query.attributes || { service: query.service };
+  const args = Object.entries(attributes)
+    .map(([k, v]) => `${shellQuote(k)} ${shellQuote(v)}`)
+    .join(' ');
+  const { stdout } = await execCommand(`secret-tool lookup ${args}`, 5000);
+  return stdout || null;
+}
+
+function readSecretFile(query: SecretQuery): string | null {
+  if (!query.file) return null;
+  try {
+    const p = expandHome(query.file);
+    if (!fs.existsSync(p)) return null;
+    return fs.readFileSync(p, 'utf8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+
+function jwtExpiry(token: string): number {
+  const payload = parseJwt(token);
+  return typeof payload?.exp === 'number' ? payload.exp : 0;
+}
+
+// Fallback when the sqlite3 CLI is missing: find JWTs stored right after the key
+// in the database and its WAL, preferring the one that expires last
+function scanStateDb(dbPath: string, dbKey: string): string | null {
+  let best: string | null = null;
+  for (const p of [dbPath, `${dbPath}-wal`]) {
+    if (!fs.existsSync(p)) continue;
+    const content = fs.readFileSync(p).toString('latin1');
+    let idx = content.indexOf(dbKey);
+    while (idx !== -1) {
+      const tail = content.substring(idx + dbKey.length, idx + dbKey.length + 4096);
+      const m = tail.match(JWT_PATTERN);
+      if (m && (!best || jwtExpiry(m[0]) > jwtExpiry(best))) {
+        best = m[0];
+      }
+      idx = content.indexOf(dbKey, idx + dbKey.length);
+    }
+  }
+  return best;
+}
+
+async function readStateDb(query: SecretQuery): Promise<string | null> {
+  if (!query.db || !query.dbKey) return null;
+  try {
+    const p = expandHome(query.db);
+    if (!fs.existsSync(p)) return null;
+    const sql = `SELECT value FROM ItemTable WHERE key = '${query.dbKey.replace(/'/g, "''")}'`;
+    const { stdout } = await execCommand(`sqlite3 -readonly ${shellQuote(p)} ${shellQuote(sql)}`, 5000);
+    if (stdout) return stdout;
+    return scanStateDb(p, query.dbKey);
+  } catch {
+    return null;
+  }
+}
+
+function captureKey(source: SecretSource, query: SecretQuery): string {
+  const location = query.file || query.db;
+  return `${source}:${query.service}` + (location ? `:${portablePath(expandHome(location))}` : '');
+}
+
+/**
+ * Look a secret up in a single source. Keychain and Secret Service results are
+ * cached because both shell out (and may prompt); local files are always read fresh.
+ * --replay serves the recorded (redacted) value instead.
+ */
+export async function lookupSecret(source: SecretSource, query: SecretQuery, ttl: number = DEFAULT_TTL): Promise<string | null> {
+  if (isReplaying()) return replayCredential<string>(captureKey(source, query));
+  const value = await readSecret(source, query, ttl);
+  recordCredential(captureKey(source, query), value);
+  return value;
+}
+
+async function readSecret(source: SecretSource, query: SecretQuery, ttl: number): Promise<string | null> {
+  if (source === 'file') return readSecretFile(query);
+  if (source === 'state-db') return await readStateDb(query);
+
+  const now = Date.now();
+  const key = cacheKey(source, query.service);
+  const cache = loadCache();
+  const cached = cache[key];
+
+  // Don't use cached null values - retry reading from the store
+  // This ensures new credentials are picked up after login
+  if (cached && cached.value !== null && (now - cached.timestamp) < ttl) {
+    return cached.value;
+  }
+
+  const value = source === 'keychain'
+    ? await readKeychain(query)
+    : await readSecretService(query);
+
+  setCacheEntry(key, { value, timestamp: now });
+
+  return value;
+}
+
+/**
+ * Try each source in order and return the first hit along with where it came from
+ */
+export async function findSecret(
+  sources: SecretSource[],
+  query: SecretQuery,
+  ttl: number = DEFAULT_TTL
+): Promise<{ value: string; source: SecretSource } | null> {
+  for (const source of sources) {
+    const value = await lookupSecret(source, query, ttl);
+    if (value) return { value, source };
+  }
+  return null;
+}
+
+function runWithInput(file: string, args: string[], input: string, timeout = 5000): Promise<boolean> {
+  return new Promise((resolve) => {
+    try {
+      const child = spawn(file, args, { stdio: ['pipe', 'ignore', 'ignore'] });
+      const timer = setTimeout(() => {
+        child.kill('SIGTERM');
+        resolve(false);
+      }, timeout);
+      child.on('error', () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+      child.on('exit', (code) => {
+        clearTimeout(timer);
+        resolve(code === 0);
+      });
+      child.stdin?.end(input);
+    } catch {
+      resolve(false);
+    }
+  });
+}
+
+// Quote an argument for `security -i`, which splits its input lines itself
+function securityQuote(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+async function writeKeychain(query: SecretQuery, value: string): Promise<boolean> {
+  if (process.platform !== 'darwin') return false;
+  const account = query.attributes?.account || os.userInfo().username;
+  // The command goes to `security -i` on stdin so the secret never shows up in
+  // `ps`; -X takes it hex-encoded, which needs no quoting
+  const hex = Buffer.from(value, 'utf8').toString('hex');
+  const command = `add-generic-password -U -a ${securityQuote(account)} -s ${securityQuote(query.service)} -X ${hex}\n`;
+  if (!(await runWithInput('security', ['-i'], command))) return false;
+  // Interactive mode exits 0 even when a command fails, so read the item back
+  return (await readKeychain(query)) === value.trim();
+}
+
+async function writeSecretService(query: SecretQuery, value: string): Promise<boolean> {
+  const attributes = query.attributes || { service: query.service };
+  const args = ['store', `--label=${query.service}`];
+  for (const [k, v] of Object.entries(attributes)) {
+    args.push(k, v);
+  }
+  // secret-tool reads the secret from stdin, keeping it off the command line
+  return await runWithInput('secret-tool', args, value);
+}
+
+function writeSecretFile(query: SecretQuery, value: string): boolean {
+  if (!query.file) return false;
+  try {
+    const p = expandHome(query.file);
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    const tmpPath = `${p}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, value, { mode: 0o600 });
+    fs.renameSync(tmpPath, p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write a secret back to the store it was read from and refresh the cache
+ */
+export async function storeSecret(source: SecretSource, query: SecretQuery, value: string): Promise<boolean> {
+  // Replayed tokens are placeholders; never let them overwrite real credentials
+  if (isReplaying()) return true;
+  let ok = false;
+  if (source === 'file') ok = writeSecretFile(query, value);
+  else if (source === 'keychain') ok = await writeKeychain(query, value);
+  else if (source === 'secret-service') ok = await writeSecretService(query, value);
+  if (!ok || source === 'file' || source === 'state-db') return ok;
+
+  setCacheEntry(cacheKey(source, query.service), { value, timestamp: Date.now() });
+  return true;
+}
+
+/**
+ * Human readable location of a secret, for diagnostics
+ */
+export function describeSecretSource(source: SecretSource, query: SecretQuery): string {
+  switch (source) {
+    case 'file': return `file ${query.file}`;
+    case 'state-db': return `${query.db} (${query.dbKey})`;
+    case 'keychain': return `Keychain "${query.service}"`;
+    case 'secret-service': return `Secret Service "${query.service}"`;
+  }
+}
+
+/**
+ * Cached lookups without their values: which stores hold something and how old it is
+ */
+export function secretCacheEntries(): { key: string; found: boolean; ageMs: number }[] {
+  const now = Date.now();
+  return Object.entries(loadCache()).map(([key, entry]) => ({
+    key,
+    found: entry.value !== null,
+    ageMs: now - entry.timestamp
+  }));
+}
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+
+/**
+ * Small encrypted JSON store for cached secrets.
+ *
+ * - Lives in $XDG_RUNTIME_DIR (tmpfs, per user) or a private 0700 directory
+ * - Written atomically (temp file + rename) with 0600 permissions
+ * - AES-256-GCM encrypted with a per-user key kept under XDG_CONFIG_HOME
+ * - Read-modify-write cycles hold a lock file so concurrent instances don't
+ *   drop each other's entries
+ */
+
+interface Envelope {
+  v: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const APP_DIR = 'ai_subscription_monitor';
+const CACHE_FILE = 'secret-cache.json';
+const LOCK_TIMEOUT_MS = 2000;
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 25;
+
+let legacyRemoved = false;
+
+function getUid(): number {
+  return process.getuid ? process.getuid() : os.userInfo().uid;
+}
+
+function getXdgConfigHome(): string {
+  return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+}
+
+// Create a directory only we can read, tightening it if it already exists
+function ensurePrivateDir(dir: string): void {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stat = fs.statSync(dir);
+  if (process.getuid && stat.uid !== getUid()) {
+    throw new Error(`Refusing to use ${dir}: owned by another user`);
+  }
+  if ((stat.mode & 0o077) !== 0) {
+    fs.chmodSync(dir, 0o700);
+  }
+}
+
+export function getCacheDir(): string {
+  const runtimeDir = process.env.XDG_RUNTIME_DIR;
+  if (runtimeDir && fs.existsSync(runtimeDir)) {
+    return path.join(runtimeDir, APP_DIR);
+  }
+  return path.join(os.tmpdir(), `ai-sub-${getUid()}`);
+}
+
+export function getCachePath(): string {
+  return path.join(getCacheDir(), CACHE_FILE);
+}
+
+function getKeyPath(): string {
+  return path.join(getXdgConfigHome(), APP_DIR, 'cache.key');
+}
+
+function loadKey(): Buffer {
+  const keyPath = getKeyPath();
+  if (fs.existsSync(keyPath)) {
+    const key = Buffer.from(fs.readFileSync(keyPath, 'utf8').trim(), 'base64');
+    if (key.length === 32) return key;
+  }
+
+  ensurePrivateDir(path.dirname(keyPath));
+  const key = crypto.randomBytes(32);
+  writeAtomic(keyPath, key.toString('base64'));
+  return key;
+}
+
+function writeAtomic(p: string, content: string): void {
+  const tmpPath = `${p}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  fs.writeFileSync(tmpPath, content, { mode: 0o600 });
+  fs.renameSync(tmpPath, p);
+}
+
+function encrypt(plaintext: string, key: Buffer): Envelope {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    v: 1,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function decrypt(envelope: Envelope, key: Buffer): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.data, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function withLock<T>(fn: () => T): T {
+  const lockPath = `${getCachePath()}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let fd: number | null = null;
+
+  while (fd === null) {
+    try {
+      fd = fs.openSync(lockPath, 'wx', 0o600);
+    } catch (e: any) {
+      if (e.code !== 'EEXIST') throw e;
+      try {
+        // A crashed instance may leave the lock behind
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          fs.unlinkSync(lockPath);
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error('Timed out waiting for cache lock');
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.closeSync(fd);
+    try {
+      fs.unlinkSync(lockPath);
+    } catch {
+    }
+  }
+}
+
+function readUnlocked<T>(): T | null {
+  const cachePath = getCachePath();
+  if (!fs.existsSync(cachePath)) return null;
+  const envelope = JSON.parse(fs.readFileSync(cachePath, 'utf8')) as Envelope;
+  if (envelope.v !== 1) return null;
+  return JSON.parse(decrypt(envelope, loadKey())) as T;
+}
+
+/**
+ * Read the cache; a missing, corrupt or foreign-key file reads as empty
+ */
+export function readSecureCache<T>(): T | null {
+  try {
+    return readUnlocked<T>();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply `update` to the latest cache contents under the lock and persist the result
+ */
+export function updateSecureCache<T>(update: (current: T | null) => T): void {
+  if (!legacyRemoved) {
+    removeLegacyCache();
+    legacyRemoved = true;
+  }
+  try {
+    ensurePrivateDir(getCacheDir());
+    withLock(() => {
+      let current: T | null = null;
+      try {
+        current = readUnlocked<T>();
+      } catch {
+        current = null;
+      }
+      const next = update(current);
+      writeAtomic(getCachePath(), JSON.stringify(encrypt(JSON.stringify(next), loadKey())));
+    });
+  } catch {
+    // caching is best effort
+  }
+}
+
+// Older versions kept a plaintext cache in /tmp
+function removeLegacyCache(): void {
+  try {
+    const legacy = path.join(os.tmpdir(), `ai-sub-keychain-cache-${getUid()}.json`);
+    if (fs.existsSync(legacy)) {
+      fs.unlinkSync(legacy);
+    }
+  } catch {
+  }
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ProviderRecord } from './output.js';
+
+/**
+ * Latest result per provider, shared between processes so quick consumers
+ * (statusline) don't have to hit every provider API themselves
+ */
+interface SnapshotFile {
+  providers: Record<string, ProviderRecord>;
+}
+
+function getXdgCacheHome(): string {
+  return process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+}
+
+export function getSnapshotPath(): string {
+  return path.join(getXdgCacheHome(), 'ai_subscription_monitor', 'snapshot.json');
+}
+
+export function loadSnapshot(): Record<string, ProviderRecord> {
+  try {
+    const p = getSnapshotPath();
+    if (!fs.existsSync(p)) return {};
+    const data = JSON.parse(fs.readFileSync(p, 'utf8')) as SnapshotFile;
+    return data.providers || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge records into the snapshot. A failed fetch keeps the previous windows
+ * but still bumps fetched_at, so callers don't retry a broken provider on
+ * every invocation.
+ */
+export function saveSnapshot(records: ProviderRecord[]): void {
+  try {
+    const providers = loadSnapshot();
+    for (const record of records) {
+      const previous = providers[record.provider];
+      providers[record.provider] = record.error && previous && previous.windows.length > 0
+        ? { ...previous, error: record.error, error_kind: record.error_kind, hint: record.hint, fetched_at: record.fetched_at }
+        : record;
+    }
+
+    const p = getSnapshotPath();
+    fs.mkdirSync(path.dirname(p), { recursive: true, mode: 0o700 });
+    const tmpPath = `${p}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ providers } satisfies SnapshotFile), { mode: 0o600 });
+    fs.renameSync(tmpPath, p);
+  } catch {
+    // snapshot is best effort
+  }
+}
+
+export function isFresh(record: ProviderRecord | undefined, maxAgeMs: number, now: number = Date.now()): boolean {
+  if (!record?.fetched_at) return false;
+  return now - new Date(record.fetched_at).getTime() <= maxAgeMs;
+}
@@ -0,0 +1,155 @@
+import { ProviderRecord } from './output.js';
+import { formatDuration } from './utils.js';
+
+export type ColorMode = 'none' | 'ansi' | 'tmux' | 'polybar' | 'pango';
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+const WARN_RATIO = 0.7;
+const CRIT_RATIO = 0.9;
+
+// Short labels for the generated default template
+const SHORT_NAMES: Record<string, string> = {
+  claude: 'C',
+  openai: 'X',
+  gemini: 'G',
+  cursor: 'Cu',
+  copilot: 'Co'
+};
+
+interface Resolved {
+  text: string;
+  ratio: number | null;
+}
+
+function level(ratio: number): 'critical' | 'warning' | 'normal' {
+  if (ratio >= CRIT_RATIO) return 'critical';
+  if (ratio >= WARN_RATIO) return 'warning';
+  return 'normal';
+}
+
+function colorize(text: string, ratio: number | null, mode: ColorMode): string {
+  if (ratio === null || mode === 'none') return text;
+  const lvl = level(ratio);
+  if (lvl === 'normal' && mode !== 'ansi' && mode !== 'tmux') return text;
+
+  const palette = {
+    critical: { ansi: '31', tmux: 'red', hex: '#ff5555' },
+    warning: { ansi: '33', tmux: 'yellow', hex: '#f1fa8c' },
+    normal: { ansi: '32', tmux: 'green', hex: '#50fa7b' }
+  }[lvl];
+
+  switch (mode) {
+    case 'ansi': return `\x1b[${palette.ansi}m${text}\x1b[39m`;
+    case 'tmux': return `#[fg=${palette.tmux}]${text}#[default]`;
+    case 'polybar': return `%{F${palette.hex}}${text}%{F-}`;
+    case 'pango': return `<span foreground="${palette.hex}">${text}</span>`;
+  }
+  return text;
+}
+
+function findRecord(records: Record<string, ProviderRecord>, provider: string): ProviderRecord | undefined {
+  if (records[provider]) return records[provider];
+  // "openai" falls back to the first configured account
+  const key = Object.keys(records).find(k => k.startsWith(`${provider}:`));
+  return key ? records[key] : undefined;
+}
+
+// Provider keys never contain dots, window ids (Gemini model ids) may
+function splitPlaceholder(expr: string): { provider: string; window: string; field: 'pct' | 'reset' } {
+  const dot = expr.indexOf('.');
+  if (dot === -1) return { provider: expr, window: 'max', field: 'pct' };
+  let window = expr.substring(dot + 1);
+  let field: 'pct' | 'reset' = 'pct';
+  if (window.endsWith('.reset')) {
+    window = window.substring(0, window.length - '.reset'.length);
+    field = 'reset';
+  }
+  return { provider: expr.substring(0, dot), window, field };
+}
+
+function resolve(expr: string, records: Record<string, ProviderRecord>, now: number): Resolved | null {
+  const { provider, window, field } = splitPlaceholder(expr.trim());
+  const record = findRecord(records, provider);
+  if (!record || record.windows.length === 0) return null;
+
+  let target = record.windows.find(w => w.id === window);
+  if (!target && (window === 'max' || window === 'min')) {
+    const sorted = [...record.windows].sort((a, b) => a.used_fraction - b.used_fraction);
+    target = window === 'max' ? sorted[sorted.length - 1] : sorted[0];
+  }
+  if (!target) return null;
+
+  if (field === 'reset') {
+    if (!target.resets_at) return null;
+    return { text: formatDuration(new Date(target.resets_at).getTime() - now), ratio: null };
+  }
+  return { text: (target.used_fraction * 100).toFixed(0), ratio: target.used_fraction };
+}
+
+/**
+ * Provider keys referenced by a template, e.g. ["claude", "openai"]
+ */
+export function templateProviders(template: string): string[] {
+  const keys = new Set<string>();
+  for (const m of template.matchAll(PLACEHOLDER)) {
+    keys.add(splitPlaceholder(m[1].trim()).provider);
+  }
+  return [...keys];
+}
+
+export function defaultTemplate(keys: string[]): string {
+  return keys
+    .map(key => {
+      const base = key.split(':')[0];
+      const short = SHORT_NAMES[base] || base;
+      return `${key.includes(':') ? `${short}(${key.split(':')[1]})` : short}:{${key}.max}%`;
+    })
+    .join(' ');
+}
+
+export function renderStatusline(
+  template: string,
+  records: Record<string, ProviderRecord>,
+  opts: { color?: ColorMode; missing?: string } = {}
+): { text: string; maxRatio: number | null } {
+  const now = Date.now();
+  let maxRatio: number | null = null;
+
+  const text = template.replace(PLACEHOLDER, (_, expr: string) => {
+    const value = resolve(expr, records, now);
+    if (!value) return opts.missing ?? '?';
+    if (value.ratio !== null) maxRatio = Math.max(maxRatio ?? 0, value.ratio);
+    return colorize(value.text, value.ratio, opts.color || 'none');
+  });
+
+  return { text, maxRatio };
+}
+
+/**
+ * Waybar custom module JSON: text, tooltip, class and percentage
+ */
+export function renderWaybar(template: string, records: Record<string, ProviderRecord>, keys: string[], missing?: string): string {
+  const { text, maxRatio } = renderStatusline(template, records, { color: 'pango', missing });
+
+  const tooltip = keys
+    .map(key => records[key])
+    .filter((r): r is ProviderRecord => !!r)
+    .map(r => {
+      const lines = [r.name + (r.error ? ` — ${r.error}` : '')];
+      if (r.hint) lines.push(`  ${r.hint}`);
+      for (const w of r.windows) {
+        const reset = w.resets_at ? ` (resets in ${formatDuration(new Date(w.resets_at).getTime() - Date.now())})` : '';
+        lines.push(`  ${w.label}: ${(w.used_fraction * 100).toFixed(0)}%${reset}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+
+  return JSON.stringify({
+    text,
+    tooltip,
+    class: maxRatio === null ? 'unknown' : level(maxRatio),
+    percentage: maxRatio === null ? 0 : Math.round(maxRatio * 100)
+  });
+}
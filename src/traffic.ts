@@ -0,0 +1,252 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AxiosError, AxiosHeaders, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { redactUrl } from './logger.js';
+
+/**
+ * --record / --replay: provider HTTP responses, CLI output and credential
+ * lookups captured to one JSON file, with tokens redacted; a repeated
+ * identical entry is stored once. Replay serves them back in recorded order
+ * (cycling, so watch mode keeps working) without touching the network, the
+ * CLIs or any credential store.
+ */
+export const CAPTURE_FILE = 'capture.json';
+
+export interface RecordedResponse {
+  status?: number;             // Absent for network errors
+  data?: unknown;
+  retry_after?: string;
+  code?: string;               // Network error code, e.g. ECONNRESET
+  message?: string;
+}
+
+export interface RecordedCommand {
+  stdout: string;
+  stderr: string;
+}
+
+export interface Capture {
+  version: 1;
+  recorded_at: string;
+  http: Record<string, RecordedResponse[]>;        // "GET https://..."
+  commands: Record<string, RecordedCommand[]>;     // "codex login status"
+  credentials: Record<string, unknown[]>;          // "file:Claude Code-credentials:~/.claude/.credentials.json"
+}
+
+interface TrafficState {
+  mode: 'off' | 'record' | 'replay';
+  file?: string;
+  capture: Capture;
+  cursors: Map<string, number>;
+}
+
+const REDACTED = 'REDACTED';
+const SAVE_DELAY_MS = 1000;
+// Whole key names (case and separators ignored), so fields like tokenType or
+// totalTokens survive; OPENAI_API_KEY and client_secret still match
+const SECRET_KEY = /^(?:access|refresh|id|oauth|session)?token$|^(?:client)?secret$|apikey$|^(?:authorization|cookie|password)$/;
+const JWT = /^[A-Za-z0-9_-]+\.([A-Za-z0-9_-]+)\.[A-Za-z0-9_-]+$/;
+
+function emptyCapture(): Capture {
+  return { version: 1, recorded_at: new Date().toISOString(), http: {}, commands: {}, credentials: {} };
+}
+
+let state: TrafficState = { mode: 'off', capture: emptyCapture(), cursors: new Map() };
+let saveTimer: NodeJS.Timeout | null = null;
+
+export function configureTraffic(opts: { record?: string; replay?: string }): void {
+  if (opts.record && opts.replay) {
+    throw new Error('--record and --replay cannot be combined');
+  }
+  if (opts.replay) {
+    const file = path.join(path.resolve(opts.replay), CAPTURE_FILE);
+    let capture: Capture;
+    try {
+      capture = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e: any) {
+      throw new Error(`Cannot read capture ${file}: ${e.code || e.message}`);
+    }
+    state = { mode: 'replay', file, capture: { ...emptyCapture(), ...capture }, cursors: new Map() };
+  } else if (opts.record) {
+    const file = path.join(path.resolve(opts.record), CAPTURE_FILE);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    state = { mode: 'record', file, capture: emptyCapture(), cursors: new Map() };
+    save();
+    process.on('exit', flush);
+  } else {
+    state = { mode: 'off', capture: emptyCapture(), cursors: new Map() };
+  }
+}
+
+export function isRecording(): boolean {
+  return state.mode === 'record';
+}
+
+export function isReplaying(): boolean {
+  return state.mode === 'replay';
+}
+
+function save(): void {
+  try {
+    fs.writeFileSync(state.file!, JSON.stringify(state.capture, null, 2) + '\n', { mode: 0o600 });
+  } catch (e: any) {
+    console.error(`Cannot write capture ${state.file}: ${e.code || e.message}`);
+  }
+}
+
+// A refresh records a burst of entries; write them together, and on exit so
+// an interrupted watch-mode run still leaves a capture
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(flush, SAVE_DELAY_MS);
+  saveTimer.unref();
+}
+
+function flush(): void {
+  if (!saveTimer) return;
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  save();
+}
+
+// A JWT keeps its header and the email claim (shown as the account) but can no
+// longer authenticate; everything else secret becomes a placeholder
+function redactString(value: string): string {
+  const m = value.match(JWT);
+  if (m) {
+    try {
+      const payload = JSON.parse(Buffer.from(m[1], 'base64url').toString('utf8'));
+      const kept = Buffer.from(JSON.stringify(payload.email ? { email: payload.email } : {})).toString('base64url');
+      return `${value.split('.')[0]}.${kept}.${REDACTED}`;
+    } catch {
+      return REDACTED;
+    }
+  }
+  return value ? REDACTED : value;
+}
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key.toLowerCase().replace(/[_-]/g, ''));
+}
+
+/**
+ * Copy of a JSON value with credential-like keys and JWTs masked
+ */
+export function redact(value: unknown, secret = false): unknown {
+  if (typeof value === 'string') {
+    if (secret || JWT.test(value)) return redactString(value);
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(item => redact(item, secret));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, secret || isSecretKey(k))]));
+  }
+  return value;
+}
+
+// Stored credential documents are JSON strings; redact inside them
+function redactCredential(value: unknown): unknown {
+  if (typeof value !== 'string') return redact(value);
+  const trimmed = value.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return JSON.stringify(redact(JSON.parse(trimmed)));
+    } catch {
+      // not JSON after all
+    }
+  }
+  return redactString(trimmed);
+}
+
+// Watch mode sees the same responses over and over; keep each distinct one once
+function append<T>(section: Record<string, T[]>, key: string, entry: T): void {
+  const entries = (section[key] ||= []);
+  const json = JSON.stringify(entry);
+  if (entries.some(existing => JSON.stringify(existing) === json)) return;
+  entries.push(entry);
+  scheduleSave();
+}
+
+function next<T>(section: Record<string, T[]>, kind: string, key: string): T | undefined {
+  const entries = section[key];
+  if (!entries || entries.length === 0) return undefined;
+  const cursorKey = `${kind} ${key}`;
+  const i = state.cursors.get(cursorKey) || 0;
+  state.cursors.set(cursorKey, i + 1);
+  return entries[i % entries.length];
+}
+
+/**
+ * Home directory shown as "~" so captures replay on another machine
+ */
+export function portablePath(p: string): string {
+  const home = os.homedir();
+  return p === home || p.startsWith(home + path.sep) ? '~' + p.slice(home.length) : p;
+}
+
+// Custom provider URLs may carry an interpolated API key as a query parameter
+function httpKey(request: AxiosRequestConfig): string {
+  return `${(request.method || 'GET').toUpperCase()} ${redactUrl(request.url || '')}`;
+}
+
+export function recordResponse(request: AxiosRequestConfig, outcome: AxiosResponse | any): void {
+  if (state.mode !== 'record') return;
+  const response: AxiosResponse | undefined = outcome?.status !== undefined && outcome?.config ? outcome : outcome?.response;
+  const entry: RecordedResponse = response
+    ? { status: response.status, data: redact(response.data) }
+    : { code: outcome?.code, message: outcome?.message };
+  const retryAfter = response?.headers?.['retry-after'];
+  if (retryAfter !== undefined) entry.retry_after = String(retryAfter);
+  append(state.capture.http, httpKey(request), entry);
+}
+
+/**
+ * The recorded response for a request, rebuilt as an axios response, or
+ * thrown the way axios would throw it
+ */
+export function replayResponse<T>(request: AxiosRequestConfig): AxiosResponse<T> {
+  const entry = next(state.capture.http, 'http', httpKey(request));
+  const config = { ...request, headers: new AxiosHeaders() };
+  if (!entry) {
+    throw new AxiosError(`No recorded response for ${httpKey(request)}`, 'ERR_NETWORK', config);
+  }
+  if (entry.status === undefined) {
+    throw new AxiosError(entry.message || 'Recorded network error', entry.code, config);
+  }
+
+  const response: AxiosResponse<T> = {
+    data: entry.data as T,
+    status: entry.status,
+    statusText: '',
+    headers: entry.retry_after !== undefined ? { 'retry-after': entry.retry_after } : {},
+    config
+  };
+  const validate = request.validateStatus === undefined
+    ? (status: number) => status >= 200 && status < 300
+    : request.validateStatus;
+  if (validate && !validate(entry.status)) {
+    const code = entry.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${entry.status}`, code, config, undefined, response);
+  }
+  return response;
+}
+
+export function recordCommand(command: string, output: RecordedCommand): void {
+  if (state.mode !== 'record') return;
+  append(state.capture.commands, command, output);
+}
+
+// A command missing from the capture looks like one that is not installed
+export function replayCommand(command: string): RecordedCommand {
+  return next(state.capture.commands, 'command', command) || { stdout: '', stderr: `${command}: not recorded` };
+}
+
+export function recordCredential(key: string, value: unknown): void {
+  if (state.mode !== 'record') return;
+  append(state.capture.credentials, key, redactCredential(value));
+}
+
+export function replayCredential<T>(key: string): T | null {
+  return (next(state.capture.credentials, 'credential', key) ?? null) as T | null;
+}
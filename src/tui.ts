@@ -0,0 +1,202 @@
+import readline from 'readline';
+import chalk from 'chalk';
+import { SubscriptionInfo } from './providers/base.js';
+import { renderPanels } from './render.js';
+import { runBackgroundCommand, shellQuote } from './utils.js';
+
+export interface TuiPanel {
+  key: string;
+  info: SubscriptionInfo;
+}
+
+export interface TuiHandlers {
+  panels(): TuiPanel[];
+  refresh(): void;
+  login(key: string): Promise<void>;
+  quit(): void;
+}
+
+const MAX_MESSAGES = 3;
+const HELP = 'r refresh  1-9/←→ focus  l login  o open dashboard  h hide/show  c compact  q quit';
+
+function openUrl(url: string): boolean {
+  const opener = process.platform === 'darwin'
+    ? 'open'
+    : process.platform === 'win32' ? 'start ""' : 'xdg-open';
+  return runBackgroundCommand(`${opener} ${shellQuote(url)}`);
+}
+
+/**
+ * Full-screen, keyboard-driven watch mode. Draws on the alternate screen and
+ * overwrites lines in place instead of clearing, so refreshes don't flicker.
+ */
+export class Tui {
+  private handlers: TuiHandlers;
+  private compact: boolean;
+  private focus = 0;
+  private hidden = new Set<string>();
+  private messages: string[] = [];
+  private notice: string | null = null;
+  private busy = false;
+  private originalLog = console.log;
+  private originalError = console.error;
+  private onKeypress = (str: string, key: readline.Key) => this.handleKey(str, key);
+  private onResize = () => this.draw();
+
+  constructor(handlers: TuiHandlers, opts: { compact?: boolean } = {}) {
+    this.handlers = handlers;
+    this.compact = !!opts.compact;
+  }
+
+  static supported(): boolean {
+    return !!process.stdin.isTTY && !!process.stdout.isTTY;
+  }
+
+  start(): void {
+    // Provider progress logs would scribble over the screen; show them in the footer
+    console.log = (...args: any[]) => this.message(args.join(' '));
+    console.error = (...args: any[]) => this.message(chalk.red(args.join(' ')));
+
+    process.stdout.write('\x1b[?1049h\x1b[?25l');
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on('keypress', this.onKeypress);
+    process.stdout.on('resize', this.onResize);
+    this.draw();
+  }
+
+  stop(): void {
+    process.stdin.off('keypress', this.onKeypress);
+    process.stdout.off('resize', this.onResize);
+    if (process.stdin.isTTY) process.stdin.setRawMode(false);
+    process.stdin.pause();
+    process.stdout.write('\x1b[?25h\x1b[?1049l');
+    console.log = this.originalLog;
+    console.error = this.originalError;
+  }
+
+  setBusy(busy: boolean): void {
+    this.busy = busy;
+    this.draw();
+  }
+
+  // Stays under the status line until cleared, unlike the rotating messages
+  setNotice(text: string | null): void {
+    if (text === this.notice) return;
+    this.notice = text;
+    this.draw();
+  }
+
+  message(text: string): void {
+    this.messages.push(`${chalk.dim(new Date().toLocaleTimeString())} ${text}`);
+    if (this.messages.length > MAX_MESSAGES) this.messages.shift();
+    this.draw();
+  }
+
+  draw(): void {
+    const panels = this.handlers.panels();
+    if (this.focus >= panels.length) this.focus = Math.max(0, panels.length - 1);
+
+    const out: string[] = [];
+    const status = this.busy ? chalk.yellow('refreshing…') : chalk.dim(new Date().toLocaleString());
+    out.push(`${status}  ${chalk.dim(HELP)}`);
+    if (this.notice) out.push(chalk.red(this.notice));
+    out.push('');
+
+    if (panels.length > 0) {
+      out.push(renderPanels(panels.map(p => p.info), {
+        compact: this.compact,
+        focused: this.focus,
+        hidden: (i) => this.hidden.has(panels[i].key)
+      }));
+    } else {
+      out.push(chalk.dim('Loading subscriptions...'));
+    }
+
+    if (this.messages.length > 0) {
+      out.push('', ...this.messages);
+    }
+
+    // Home the cursor, rewrite each line clearing its tail, then clear below
+    const lines = out.join('\n').split('\n');
+    process.stdout.write('\x1b[H' + lines.map(l => `${l}\x1b[K`).join('\n') + '\x1b[J');
+  }
+
+  private focused(): TuiPanel | null {
+    return this.handlers.panels()[this.focus] || null;
+  }
+
+  private moveFocus(delta: number): void {
+    const count = this.handlers.panels().length;
+    if (count === 0) return;
+    this.focus = (this.focus + delta + count) % count;
+    this.draw();
+  }
+
+  private handleKey(str: string, key: readline.Key): void {
+    if (key?.ctrl && key.name === 'c') {
+      this.handlers.quit();
+      return;
+    }
+
+    const name = key?.name || str;
+    if (/^[1-9]$/.test(str || '')) {
+      const idx = parseInt(str, 10) - 1;
+      if (idx < this.handlers.panels().length) {
+        this.focus = idx;
+        this.draw();
+      }
+      return;
+    }
+
+    switch (name) {
+      case 'q':
+      case 'escape':
+        this.handlers.quit();
+        break;
+      case 'r':
+        this.handlers.refresh();
+        break;
+      case 'up':
+      case 'left':
+      case 'k':
+        this.moveFocus(-1);
+        break;
+      case 'down':
+      case 'right':
+      case 'j':
+      case 'tab':
+        this.moveFocus(1);
+        break;
+      case 'c':
+        this.compact = !this.compact;
+        this.draw();
+        break;
+      case 'h': {
+        const panel = this.focused();
+        if (!panel) break;
+        if (this.hidden.has(panel.key)) this.hidden.delete(panel.key);
+        else this.hidden.add(panel.key);
+        this.draw();
+        break;
+      }
+      case 'o': {
+        const panel = this.focused();
+        if (panel?.info.dashboard_url) {
+          const ok = openUrl(panel.info.dashboard_url);
+          this.message(ok ? `Opened ${panel.info.dashboard_url}` : `Could not open ${panel.info.dashboard_url}`);
+        }
+        break;
+      }
+      case 'l': {
+        const panel = this.focused();
+        if (panel) {
+          this.message(`Starting login for ${panel.info.name}…`);
+          this.handlers.login(panel.key).catch(e => this.message(chalk.red(String(e?.message || e))));
+        }
+        break;
+      }
+    }
+  }
+}
@@ -79,12 +79,13 @@ export function runDetachedCommand(command: string): boolean {
   }
 }
 
-export function runBackgroundCommand(command: string): boolean {
+export function runBackgroundCommand(command: string, env?: Record<string, string>): boolean {
   try {
     const child = spawn(command, {
       shell: true,
       detached: true,
       stdio: 'ignore',
+      env: env ? { ...process.env, ...env } : process.env,
     });
     child.unref();
     return true;
@@ -97,6 +98,17 @@ export function displayWidth(s: string): number {
   return stringWidth(s);
 }
 
+// Truncate to a display width, appending an ellipsis when cut
+export function truncateCJK(s: string, width: number): string {
+  if (displayWidth(s) <= width) return s;
+  let out = '';
+  for (const ch of s) {
+    if (displayWidth(out + ch) > width - 1) break;
+    out += ch;
+  }
+  return out + '…';
+}
+
 // CJK-aware left justification
 export function ljustCJK(s: string, width: number): string {
   const dw = displayWidth(s);
@@ -104,12 +116,12 @@ export function ljustCJK(s: string, width: number): string {
   return s + ' '.repeat(width - dw);
 }
 
-const BAR_WIDTH = 30;
+export const BAR_WIDTH = 30;
 
-export function renderBar(ratio: number, maxPctWidth: number = 4): string {
+export function renderBar(ratio: number, maxPctWidth: number = 4, barWidth: number = BAR_WIDTH): string {
   ratio = Math.max(0.0, Math.min(1.0, ratio));
-  const filled = Math.floor(ratio * BAR_WIDTH);
-  const empty = BAR_WIDTH - filled;
+  const filled = Math.floor(ratio * barWidth);
+  const empty = barWidth - filled;
   
   let colorFn = chalk.green;
   if (ratio >= 0.9) colorFn = chalk.red;
@@ -135,3 +147,53 @@ export function parseJwt(token: string): any {
     return null;
   }
 }
+
+// Local time with explicit UTC offset, e.g. "03-14 09:30 +08"
+export function formatLocalTime(value: string | number | Date, fmt: 'hm' | 'mdhm' | 'ymd' = 'mdhm'): string {
+  const dt = value instanceof Date ? value : new Date(value);
+  if (isNaN(dt.getTime())) return typeof value === 'string' ? value.substring(0, 16) : '';
+
+  const y = dt.getFullYear();
+  const m = (dt.getMonth() + 1).toString().padStart(2, '0');
+  const d = dt.getDate().toString().padStart(2, '0');
+  const h = dt.getHours().toString().padStart(2, '0');
+  const min = dt.getMinutes().toString().padStart(2, '0');
+  const offset = -dt.getTimezoneOffset() / 60;
+  const sign = offset >= 0 ? '+' : '-';
+  const zone = `${sign}${Math.abs(offset).toString().padStart(2, '0')}`;
+
+  if (fmt === 'hm') return `${h}:${min} ${zone}`;
+  if (fmt === 'ymd') return `${y}-${m}-${d} ${zone}`;
+  return `${m}-${d} ${h}:${min} ${zone}`;
+}
+
+// Parse durations like "90s", "30m", "12h", "7d", "2w" into milliseconds
+export function parseDuration(input: string): number | null {
+  const m = input.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)$/i);
+  if (!m) return null;
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+  };
+  return parseFloat(m[1]) * units[m[2].toLowerCase()];
+}
+
+// Compact human duration, e.g. "45m", "1h40m", "2d4h"
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+// Single-quote a value for /bin/sh
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}